@@ -0,0 +1,51 @@
+import { Store } from '../store';
+import {
+    createWorld,
+    DeepCloneStore,
+    ENTITY_COUNT,
+    IWorldState,
+    RETAINED_STATES,
+    retainPrevStates,
+} from './world';
+
+/**
+ * Сравнение памяти, которую удерживают сохраненные предыдущие состояния
+ * при структурном разделении и при копировании на каждом изменении.
+ * Запускается отдельно от бенчмарков командой npm run bench:memory:
+ * для точного замера нужна сборка мусора через node --expose-gc.
+ */
+
+function collectGarbage(): void {
+    const gc = (globalThis as { gc?: () => void }).gc;
+    if (!gc) {
+        throw new Error('Run the memory benchmark with node --expose-gc');
+    }
+    gc();
+}
+
+/**
+ * Измерить прирост кучи, удерживаемой предыдущими состояниями
+ * @param store Хранилище, в котором выполняются изменения
+ * @param readPrev Получение предыдущего состояния
+ * @returns Прирост кучи в мегабайтах
+ */
+function measureRetained(store: Store<IWorldState>, readPrev: () => unknown): number {
+    collectGarbage();
+    const before = process.memoryUsage().heapUsed;
+
+    const retained = retainPrevStates(store, readPrev);
+
+    collectGarbage();
+    const after = process.memoryUsage().heapUsed;
+    // Сохраненные состояния должны оставаться достижимыми до второго замера
+    return retained.length > 0 ? (after - before) / 1024 / 1024 : 0;
+}
+
+const shared = new Store(createWorld(), { mode: 'production' });
+const cloned = new DeepCloneStore(createWorld(), 'production');
+
+console.log(`Heap retained by ${RETAINED_STATES} previous states of ${ENTITY_COUNT} entities`);
+console.table({
+    'structural sharing, MB': measureRetained(shared, () => shared.prev),
+    'deep clone, MB': measureRetained(cloned, () => cloned.prevCopy),
+});
@@ -0,0 +1,57 @@
+import { bench, describe } from 'vitest';
+import { Store, StoreMode } from '../store';
+import {
+    createWorld,
+    DeepCloneStore,
+    ENTITY_COUNT,
+    moveEntity,
+    RETAINED_STATES,
+    retainPrevStates,
+} from './world';
+
+const MODES: StoreMode[] = ['production', 'readonly'];
+
+MODES.forEach((mode) => {
+    describe(`update one of ${ENTITY_COUNT} entities (${mode})`, () => {
+        const shared = new Store(createWorld(), { mode });
+        const cloned = new DeepCloneStore(createWorld(), mode);
+        let index = 0;
+
+        bench('structural sharing', () => {
+            moveEntity(shared, index++ % ENTITY_COUNT);
+        });
+
+        bench('deep clone', () => {
+            moveEntity(cloned, index++ % ENTITY_COUNT);
+        });
+    });
+});
+
+describe(`update and read prev of ${ENTITY_COUNT} entities (production)`, () => {
+    const shared = new Store(createWorld(), { mode: 'production' });
+    const cloned = new DeepCloneStore(createWorld(), 'production');
+    let index = 0;
+
+    bench('structural sharing', () => {
+        moveEntity(shared, index++ % ENTITY_COUNT);
+        void shared.prev.entities.length;
+    });
+
+    bench('deep clone', () => {
+        moveEntity(cloned, index++ % ENTITY_COUNT);
+        void cloned.prevCopy.entities.length;
+    });
+});
+
+describe(`update and retain ${RETAINED_STATES} previous states (production)`, () => {
+    const shared = new Store(createWorld(), { mode: 'production' });
+    const cloned = new DeepCloneStore(createWorld(), 'production');
+
+    bench('structural sharing', () => {
+        retainPrevStates(shared, () => shared.prev);
+    });
+
+    bench('deep clone', () => {
+        retainPrevStates(cloned, () => cloned.prevCopy);
+    });
+});
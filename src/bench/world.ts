@@ -0,0 +1,98 @@
+import { Store, StoreMode } from '../store';
+
+export interface IEntity {
+    position: { x: number; y: number };
+    velocity: { x: number; y: number };
+    health: number;
+}
+
+export interface IWorldState {
+    entities: IEntity[];
+    tick: number;
+}
+
+export const ENTITY_COUNT = 10_000;
+export const RETAINED_STATES = 20;
+
+export function createWorld(): IWorldState {
+    return {
+        entities: Array.from({ length: ENTITY_COUNT }, (_, index) => ({
+            position: { x: index, y: index },
+            velocity: { x: 1, y: -1 },
+            health: 100,
+        })),
+        tick: 0,
+    };
+}
+
+/**
+ * Копирование, которое хранилище выполняло при каждом изменении до перехода
+ * на структурное разделение
+ */
+function deepClone<V>(value: V): V {
+    if (value === null || typeof value !== 'object') {
+        return value;
+    }
+    if (Array.isArray(value)) {
+        return value.map(deepClone) as V;
+    }
+
+    const cloned: Record<string, unknown> = {};
+    for (const key in value) {
+        if (Object.prototype.hasOwnProperty.call(value, key)) {
+            cloned[key] = deepClone(value[key]);
+        }
+    }
+    return cloned as V;
+}
+
+/**
+ * Хранилище с прежним поведением: предыдущее состояние копируется целиком
+ * при каждом изменении и при каждом чтении prev
+ */
+export class DeepCloneStore<T extends object> extends Store<T> {
+    private _prevCopy: T;
+
+    constructor(data: T, mode: StoreMode) {
+        super(data, { mode });
+        this._prevCopy = deepClone(data);
+        this.onCommit((_state, prev) => {
+            this._prevCopy = deepClone(prev);
+        });
+    }
+
+    public get prevCopy(): T {
+        return deepClone(this._prevCopy);
+    }
+}
+
+/** Переместить одну сущность, как это делает система движения за кадр */
+export function moveEntity(store: Store<IWorldState>, index: number): void {
+    store.update((state) => {
+        const entities = [...state.entities];
+        const entity = entities[index];
+        entities[index] = {
+            ...entity,
+            position: {
+                x: entity.position.x + entity.velocity.x,
+                y: entity.position.y + entity.velocity.y,
+            },
+        };
+        return { entities, tick: state.tick + 1 };
+    });
+}
+
+/**
+ * Выполнить изменения, сохраняя предыдущие состояния, как это делает история изменений
+ * @param store Хранилище, в котором выполняются изменения
+ * @param readPrev Получение предыдущего состояния
+ * @returns Сохраненные предыдущие состояния
+ */
+export function retainPrevStates(store: Store<IWorldState>, readPrev: () => unknown): unknown[] {
+    const retained: unknown[] = [];
+    for (let index = 0; index < RETAINED_STATES; index++) {
+        moveEntity(store, index);
+        retained.push(readPrev());
+    }
+    return retained;
+}
@@ -1 +1 @@
-export * from "./store";
\ No newline at end of file
+export * from './store';
@@ -0,0 +1,105 @@
+import { Store } from '../store';
+import { ActionInfo } from '../models';
+import { changedFields } from '../utils';
+import { ActionLogEntry, IActionSession } from './types';
+
+/**
+ * Журнал действий хранилища для отчетов об ошибках и повтора сессий.
+ *
+ * Журнал запоминает состояние на начало записи и затем каждое действие,
+ * вызванное через defineActions. Изменения в обход действий (update, reset,
+ * история, синхронизация) записываются значениями измененных полей, поэтому
+ * выгруженный журнал можно повторить на новом хранилище через replayActions
+ * и получить то же состояние. Изменения batch, в котором вызывались действия,
+ * записываются и действиями, и итоговыми значениями полей.
+ *
+ * @example
+ * ```typescript
+ * const log = new ActionLog(gameStore);
+ * const actions = defineActions(gameStore, handlers, { log });
+ *
+ * actions.addScore(10);
+ *
+ * const session = log.export();
+ * bugReport.attach(gameStore.serializer.stringify(session));
+ *
+ * log.dispose();
+ * ```
+ *
+ * @template T Тип состояния
+ */
+export class ActionLog<T extends object> {
+    private _initialState: T;
+    private _entries: ActionLogEntry<T>[] = [];
+    private _unsubscribe: () => void;
+
+    /**
+     * @param _store Хранилище, действия которого записываются
+     */
+    constructor(private _store: Store<T>) {
+        this._initialState = _store.cloneState();
+        this._unsubscribe = _store.onCommit((state, prev, context) => {
+            // Действия записывает defineActions вместе с данными
+            if (context.action) return;
+
+            this._entries.push({
+                type: context.label ?? 'update',
+                changes: this._store.serializer.clone(changedFields(prev, state)),
+                timestamp: Date.now(),
+            });
+        });
+    }
+
+    /**
+     * Хранилище, действия которого записываются
+     */
+    public get store(): Store<T> {
+        return this._store;
+    }
+
+    /**
+     * Записанные действия и изменения в порядке вызова
+     */
+    public get entries(): readonly ActionLogEntry<T>[] {
+        return this._entries;
+    }
+
+    /**
+     * Записать выполненное действие. Данные копируются, поэтому их
+     * последующие изменения не попадают в журнал
+     * @param action Название и данные действия
+     */
+    public record(action: ActionInfo): void {
+        this._entries.push({
+            type: action.type,
+            payload: this._store.serializer.clone(action.payload),
+            timestamp: Date.now(),
+        });
+    }
+
+    /**
+     * Начать запись заново от текущего состояния хранилища
+     */
+    public clear(): void {
+        this._initialState = this._store.cloneState();
+        this._entries = [];
+    }
+
+    /**
+     * Выгрузить копию журнала вместе с состоянием на начало записи
+     * @returns Журнал для replayActions
+     */
+    public export(): IActionSession<T> {
+        return this._store.serializer.clone({
+            initialState: this._initialState,
+            entries: this._entries,
+        });
+    }
+
+    /**
+     * Прекратить запись изменений хранилища
+     */
+    public dispose(): void {
+        this._unsubscribe();
+    }
+}
@@ -0,0 +1,169 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Store } from '../store';
+import { UpdateContext } from '../models';
+import { createHistory } from '../history';
+import { ActionLog } from './action-log';
+import { defineActions, replayActions } from './actions';
+
+interface IGameState {
+    score: number;
+    level: number;
+    items: Map<string, number>;
+}
+
+const createState = (): IGameState => ({ score: 0, level: 1, items: new Map() });
+
+const handlers = {
+    addScore: (state: IGameState, amount: number) => ({ score: state.score + amount }),
+    nextLevel: (state: IGameState) => ({ level: state.level + 1 }),
+    pickUp: (state: IGameState, item: { name: string; count: number }) => ({
+        items: new Map(state.items).set(item.name, item.count),
+    }),
+};
+
+describe('defineActions', () => {
+    it('runs actions through update with their type and payload in the context', () => {
+        const contexts: UpdateContext[] = [];
+        const store = new Store(createState(), {
+            middleware: [
+                (state, update, next, context) => {
+                    contexts.push(context);
+                    return next(state, update);
+                },
+            ],
+        });
+        const actions = defineActions(store, handlers);
+
+        actions.addScore(10);
+        actions.nextLevel();
+
+        expect(store.state.score).toBe(10);
+        expect(store.state.level).toBe(2);
+        expect(contexts).toEqual([
+            { label: 'addScore', action: { type: 'addScore', payload: 10 } },
+            { label: 'nextLevel', action: { type: 'nextLevel', payload: undefined } },
+        ]);
+    });
+
+    it('types action payloads from the handlers', () => {
+        const actions = defineActions(new Store(createState()), handlers);
+        const misuse = () => {
+            // @ts-expect-error данные addScore - число
+            actions.addScore('10');
+            // @ts-expect-error nextLevel не принимает данных
+            actions.nextLevel(1);
+        };
+        expect(misuse).toBeTypeOf('function');
+    });
+
+    it('rejects a log of another store', () => {
+        const log = new ActionLog(new Store(createState()));
+        expect(() => defineActions(new Store(createState()), handlers, { log })).toThrow(
+            'Action log belongs to another store',
+        );
+    });
+});
+
+describe('ActionLog', () => {
+    it('records actions with copied payloads', () => {
+        const store = new Store(createState());
+        const log = new ActionLog(store);
+        const actions = defineActions(store, handlers, { log });
+        const item = { name: 'sword', count: 1 };
+
+        actions.pickUp(item);
+        item.count = 5;
+
+        expect(log.entries).toEqual([
+            { type: 'pickUp', payload: { name: 'sword', count: 1 }, timestamp: expect.any(Number) },
+        ]);
+    });
+
+    it('records changes made outside actions', () => {
+        const store = new Store(createState());
+        const log = new ActionLog(store);
+        const actions = defineActions(store, handlers, { log });
+
+        actions.addScore(5);
+        store.update(() => ({ level: 7 }), { label: 'cheat' });
+        store.update(() => ({ score: 1 }));
+
+        expect(log.entries.map((entry) => entry.type)).toEqual(['addScore', 'cheat', 'update']);
+        expect(log.entries[1]).toEqual({
+            type: 'cheat',
+            changes: { level: 7 },
+            timestamp: expect.any(Number),
+        });
+    });
+
+    it('starts again on clear and stops recording on dispose', () => {
+        const store = new Store(createState());
+        const log = new ActionLog(store);
+        const actions = defineActions(store, handlers, { log });
+
+        actions.addScore(3);
+        log.clear();
+        expect(log.entries).toEqual([]);
+        expect(log.export().initialState.score).toBe(3);
+
+        log.dispose();
+        store.update(() => ({ score: 4 }));
+        expect(log.entries).toEqual([]);
+    });
+});
+
+describe('replayActions', () => {
+    it('reproduces the session including changes outside actions', () => {
+        const store = new Store(createState());
+        store.update(() => ({ score: 100 }));
+        const log = new ActionLog(store);
+        const actions = defineActions(store, handlers, { log });
+        const history = createHistory(store);
+
+        actions.addScore(10);
+        store.update(() => ({ level: 5 }), { label: 'teleport' });
+        actions.pickUp({ name: 'key', count: 1 });
+        actions.nextLevel();
+        history.undo();
+        Store.batch(() => {
+            actions.addScore(1);
+            store.update(() => ({ level: 9 }));
+        });
+
+        const session = store.serializer.parse<ReturnType<typeof log.export>>(
+            store.serializer.stringify(log.export()),
+        );
+        const replayStore = new Store(createState());
+        replayActions(replayStore, handlers, session);
+
+        expect(replayStore.cloneState()).toEqual(store.cloneState());
+        expect(replayStore.state.items.get('key')).toBe(1);
+    });
+
+    it('throws for actions without a handler', () => {
+        const store = new Store(createState());
+        const session = {
+            initialState: createState(),
+            entries: [{ type: 'fly', payload: undefined, timestamp: 0 }],
+        };
+
+        expect(() => replayActions(store, handlers, session)).toThrow('Unknown action "fly"');
+    });
+
+    it('fails replay when a recorded action no longer passes validation', () => {
+        const store = new Store(createState());
+        const log = new ActionLog(store);
+        defineActions(store, handlers, { log }).addScore(50);
+
+        const strict = new Store(createState(), {
+            validators: [
+                (update) => (update.score !== undefined && update.score > 10 ? 'Too much' : true),
+            ],
+        });
+        const listener = vi.fn();
+        strict.onCommit(listener);
+
+        expect(() => replayActions(strict, handlers, log.export())).toThrow('Too much');
+        expect(listener).toHaveBeenCalledOnce();
+    });
+});
@@ -0,0 +1,108 @@
+import { Store } from '../store';
+import { ActionInfo } from '../models';
+import { ActionHandlers, BoundActions, IActionSession, IDefineActionsOptions } from './types';
+
+/**
+ * Выполнить действие через update. Middleware получают название и данные
+ * действия в context.action
+ */
+function dispatchAction<T extends object>(
+    store: Store<T>,
+    handlers: ActionHandlers<T>,
+    action: ActionInfo,
+): void {
+    if (!Object.prototype.hasOwnProperty.call(handlers, action.type)) {
+        throw new Error(`Unknown action "${action.type}"`);
+    }
+
+    const handler = handlers[action.type];
+    store.update((state) => handler(state, action.payload as never), {
+        label: action.type,
+        action,
+    });
+}
+
+/**
+ * Создает типизированные действия хранилища.
+ *
+ * Каждое действие выполняется через update с меткой, равной названию действия,
+ * а middleware получают название и данные в context.action. Если указан журнал,
+ * выполненные действия записываются в него с временем вызова.
+ *
+ * @example
+ * ```typescript
+ * const handlers = {
+ *   addScore: (state: GameState, amount: number) => ({ score: state.score + amount }),
+ *   nextLevel: (state: GameState) => ({ level: state.level + 1 })
+ * };
+ *
+ * const log = new ActionLog(gameStore);
+ * const actions = defineActions(gameStore, handlers, { log });
+ *
+ * actions.addScore(10);
+ * actions.nextLevel();
+ *
+ * // Повтор сессии на новом хранилище
+ * const replayStore = new Store<GameState>(emptyGame);
+ * replayActions(replayStore, handlers, log.export());
+ * ```
+ *
+ * @param store - Хранилище, состояние которого изменяют действия
+ * @param handlers - Обработчики действий по названиям
+ * @param options - Журнал для записи действий
+ * @returns Объект с функциями вызова действий
+ * @throws Error если журнал принадлежит другому хранилищу
+ */
+export function defineActions<T extends object, H extends ActionHandlers<T>>(
+    store: Store<T>,
+    handlers: H,
+    options: IDefineActionsOptions<T> = {},
+): BoundActions<T, H> {
+    const { log } = options;
+    if (log && log.store !== store) {
+        throw new Error('Action log belongs to another store');
+    }
+
+    const actions = {} as Record<string, (payload?: unknown) => void>;
+    Object.keys(handlers).forEach((type) => {
+        actions[type] = (payload?: unknown) => {
+            const action: ActionInfo = { type, payload };
+            dispatchAction(store, handlers, action);
+            log?.record(action);
+        };
+    });
+    return actions as BoundActions<T, H>;
+}
+
+/**
+ * Повторить журнал действий: восстановить состояние на начало записи
+ * и выполнить записанные действия по порядку. Изменения в обход действий
+ * применяются записанными значениями полей через reset с их меткой
+ *
+ * @example
+ * ```typescript
+ * const session = gameStore.serializer.parse(bugReport.session);
+ * replayActions(new Store<GameState>(emptyGame), handlers, session);
+ * ```
+ *
+ * @param store - Хранилище, на котором повторяется журнал
+ * @param handlers - Те же обработчики, что и при записи
+ * @param session - Журнал, выгруженный через ActionLog.export
+ * @throws Error если в журнале есть действие без обработчика
+ * @throws StoreValidationError если состояние не прошло валидацию
+ */
+export function replayActions<T extends object>(
+    store: Store<T>,
+    handlers: ActionHandlers<T>,
+    session: IActionSession<T>,
+): void {
+    store.reset(store.serializer.clone(session.initialState), { label: 'replay' });
+    session.entries.forEach((entry) => {
+        if ('changes' in entry) {
+            const changes = store.serializer.clone(entry.changes);
+            store.reset({ ...store.rawState, ...changes }, { label: entry.type });
+        } else {
+            dispatchAction(store, handlers, { type: entry.type, payload: entry.payload });
+        }
+    });
+}
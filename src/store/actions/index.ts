@@ -0,0 +1,3 @@
+export * from './types';
+export * from './action-log';
+export * from './actions';
@@ -0,0 +1,95 @@
+import { ActionInfo } from '../models';
+import type { ActionLog } from './action-log';
+
+/**
+ * Обработчик действия: получает текущее состояние и данные действия,
+ * возвращает частичное обновление. Должен зависеть только от аргументов,
+ * чтобы повтор журнала давал то же состояние
+ *
+ * @example
+ * ```typescript
+ * const addScore: ActionHandler<GameState, number> = (state, amount) => ({
+ *   score: state.score + amount
+ * });
+ * ```
+ *
+ * @template T Тип состояния
+ * @template P Тип данных действия
+ */
+export type ActionHandler<T, P = unknown> = (state: T, payload: P) => Partial<T>;
+
+/** Обработчики действий по названиям. Тип данных каждого действия задает его обработчик */
+export type ActionHandlers<T> = Record<string, ActionHandler<T, never>>;
+
+/**
+ * Функции вызова действий: принимают только данные действия, если они есть
+ *
+ * @template T Тип состояния
+ * @template H Обработчики действий
+ */
+export type BoundActions<T, H extends ActionHandlers<T>> = {
+    [K in keyof H]: (...payload: Parameters<H[K]> extends [unknown, ...infer P] ? P : []) => void;
+};
+
+/**
+ * Запись журнала действий
+ *
+ * @example
+ * ```typescript
+ * const entry: IActionLogEntry = { type: 'addScore', payload: 10, timestamp: 1700000000000 };
+ * ```
+ */
+export interface IActionLogEntry<P = unknown> extends ActionInfo<P> {
+    /** Время вызова действия (Date.now()) */
+    timestamp: number;
+}
+
+/**
+ * Запись журнала об изменении, выполненном не через действие (update, reset и другие).
+ * Хранит значения измененных полей верхнего уровня, которые применяются при повторе
+ *
+ * @example
+ * ```typescript
+ * const entry: ICommitLogEntry<GameState> = {
+ *   type: 'reset',
+ *   changes: { score: 0 },
+ *   timestamp: 1700000000000
+ * };
+ * ```
+ *
+ * @template T Тип состояния
+ */
+export interface ICommitLogEntry<T> {
+    /** Метка изменения или 'update', если метки нет */
+    type: string;
+    changes: Partial<T>;
+    /** Время изменения (Date.now()) */
+    timestamp: number;
+}
+
+/**
+ * Запись журнала: вызов действия или изменение в обход действий
+ *
+ * @template T Тип состояния
+ */
+export type ActionLogEntry<T> = IActionLogEntry | ICommitLogEntry<T>;
+
+/**
+ * Выгруженный журнал: состояние на начало записи и изменения после него
+ *
+ * @template T Тип состояния
+ */
+export interface IActionSession<T> {
+    initialState: T;
+    entries: ActionLogEntry<T>[];
+}
+
+/**
+ * Опции defineActions
+ *
+ * @template T Тип состояния
+ */
+export interface IDefineActionsOptions<T extends object> {
+    /** Журнал, в который записывается каждое выполненное действие */
+    log?: ActionLog<T>;
+}
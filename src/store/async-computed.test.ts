@@ -0,0 +1,161 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Store } from './store';
+import { asyncComputed, AsyncComputedState } from './async-computed';
+import { computed } from './computed';
+
+interface ILevelState {
+    level: number;
+    paused: boolean;
+}
+
+const createLevel = () => new Store<ILevelState>({ level: 1, paused: false });
+
+/** Дождаться выполнения всех уже запланированных промисов */
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+/** Промис, которым тест управляет вручную */
+function deferred<R>() {
+    let resolve!: (value: R) => void;
+    let reject!: (error: unknown) => void;
+    const promise = new Promise<R>((res, rej) => {
+        resolve = res;
+        reject = rej;
+    });
+    return { promise, resolve, reject };
+}
+
+describe('asyncComputed', () => {
+    it('starts loading immediately and exposes the result', async () => {
+        const store = createLevel();
+        const assets = asyncComputed(store, async (state) => `level-${state.level}`, {
+            initial: 'none',
+        });
+
+        expect(assets.status).toBe('loading');
+        expect(assets.value).toBe('none');
+
+        await settle();
+        expect(assets.status).toBe('success');
+        expect(assets.value).toBe('level-1');
+        expect(assets.error).toBeUndefined();
+    });
+
+    it('reports errors and keeps the previous value when asked', async () => {
+        const store = createLevel();
+        const assets = asyncComputed(
+            store,
+            async (state) => {
+                if (state.level > 1) throw new Error('Missing level');
+                return 'first';
+            },
+            { keepPrevious: true, scheduler: 'sync' },
+        );
+        await settle();
+
+        store.update(() => ({ level: 2 }));
+        expect(assets.status).toBe('loading');
+        expect(assets.value).toBe('first');
+
+        await settle();
+        expect(assets.status).toBe('error');
+        expect(assets.error).toEqual(new Error('Missing level'));
+        expect(assets.value).toBe('first');
+    });
+
+    it('resets to the initial value while reloading by default', async () => {
+        const store = createLevel();
+        const assets = asyncComputed(store, async (state) => state.level * 10, {
+            scheduler: 'sync',
+        });
+        await settle();
+
+        store.update(() => ({ level: 2 }));
+
+        expect(assets.status).toBe('loading');
+        expect(assets.value).toBeUndefined();
+    });
+
+    it('aborts stale runs and ignores their results', async () => {
+        const store = createLevel();
+        const runs: Array<{ signal: AbortSignal; result: ReturnType<typeof deferred<number>> }> =
+            [];
+        const assets = asyncComputed(
+            store,
+            (state, signal) => {
+                const result = deferred<number>();
+                runs.push({ signal, result });
+                void state.level;
+                return result.promise;
+            },
+            { scheduler: 'sync' },
+        );
+
+        store.update(() => ({ level: 2 }));
+        expect(runs[0].signal.aborted).toBe(true);
+        expect(runs[1].signal.aborted).toBe(false);
+
+        runs[1].result.resolve(2);
+        runs[0].result.resolve(1);
+        await settle();
+
+        expect(assets.value).toBe(2);
+    });
+
+    it('re-runs only when fields read before the first await change', async () => {
+        const store = createLevel();
+        const getter = vi.fn(async (state: ILevelState) => {
+            const level = state.level;
+            await Promise.resolve();
+            return level;
+        });
+        asyncComputed(store, getter, { scheduler: 'sync' });
+
+        store.update(() => ({ paused: true }));
+        expect(getter).toHaveBeenCalledOnce();
+
+        store.update(() => ({ level: 3 }));
+        expect(getter).toHaveBeenCalledTimes(2);
+    });
+
+    it('notifies subscribers and can be read from computed', async () => {
+        const store = createLevel();
+        const assets = asyncComputed(store, async (state) => state.level, { scheduler: 'sync' });
+        const label = computed(store, () => `${assets.status}:${assets.value ?? '-'}`);
+        const states: Array<AsyncComputedState<number>> = [];
+        assets.subscribe((state) => states.push(state));
+
+        expect(label.value).toBe('loading:-');
+        await settle();
+        expect(label.value).toBe('success:1');
+
+        store.update(() => ({ level: 2 }));
+        await settle();
+        expect(states.map(({ status, value }) => `${status}:${value}`)).toEqual([
+            'success:1',
+            'loading:undefined',
+            'success:2',
+        ]);
+    });
+
+    it('stops running and notifying after dispose', async () => {
+        const store = createLevel();
+        const getter = vi.fn((state: ILevelState, signal: AbortSignal) => {
+            void state.level;
+            return new Promise<number>((resolve) => {
+                signal.addEventListener('abort', () => resolve(-1));
+            });
+        });
+        const listener = vi.fn();
+        const assets = asyncComputed(store, getter, { scheduler: 'sync' });
+        assets.subscribe(listener);
+
+        assets.dispose();
+        await settle();
+        store.update(() => ({ level: 2 }));
+
+        expect(getter).toHaveBeenCalledOnce();
+        expect(getter.mock.calls[0][1].aborted).toBe(true);
+        expect(listener).not.toHaveBeenCalled();
+        expect(assets.status).toBe('loading');
+    });
+});
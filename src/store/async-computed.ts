@@ -0,0 +1,189 @@
+import { Store } from './store';
+import { AsyncComputedStatus, IAsyncComputedOptions } from './models';
+import { createReaction, IReactiveObserver, IReactiveSource, trackSource } from './reactivity';
+
+/**
+ * Снимок состояния асинхронного вычисления
+ *
+ * @template R Тип вычисляемого значения
+ */
+export interface AsyncComputedState<R> {
+    status: AsyncComputedStatus;
+    value: R | undefined;
+    error: unknown;
+}
+
+export interface AsyncComputedRef<R> extends Readonly<AsyncComputedState<R>> {
+    /** Подписаться на изменение состояния вычисления */
+    subscribe: (listener: (state: AsyncComputedState<R>) => void) => () => void;
+    dispose: () => void;
+}
+
+type StoresTuple<T extends object[]> = { [K in keyof T]: Store<T[K]> };
+
+type StatesTuple<T extends object[]> = { [K in keyof T]: T[K] };
+
+/**
+ * Создает асинхронное вычисляемое свойство: загрузку ресурсов, запрос к серверу
+ * или вычисление в воркере, зависящее от состояния хранилищ.
+ *
+ * Возможности:
+ * - Состояние { status, value, error }
+ * - Отмена устаревшего вычисления через AbortSignal при изменении зависимостей
+ * - Сохранение последнего значения во время перезагрузки (keepPrevious)
+ * - Отслеживание зависимостей так же, как в computed
+ * - Собственные subscribe и dispose
+ *
+ * Зависимостями становятся поля, прочитанные до первого await. Результаты
+ * отмененных вычислений игнорируются, даже если getter не проверяет signal.
+ * Вычисление запускается сразу при создании, повторные запуски планируются так же,
+ * как у effect.
+ *
+ * @example
+ * ```typescript
+ * const levelAssets = asyncComputed(
+ *   gameStore,
+ *   async (state, signal) => {
+ *     const response = await fetch(`/levels/${state.level}.json`, { signal });
+ *     return response.json();
+ *   },
+ *   { keepPrevious: true }
+ * );
+ *
+ * levelAssets.subscribe(({ status, value, error }) => {
+ *   if (status === 'success') scene.load(value);
+ *   if (status === 'error') showError(error);
+ * });
+ *
+ * levelAssets.dispose();
+ * ```
+ *
+ * @param store - Одно хранилище или массив хранилищ, от которых зависит свойство
+ * @param getter - Асинхронная функция, получающая состояние хранилищ(а) и AbortSignal
+ * @param options - Начальное значение, keepPrevious и способ запуска
+ * @returns Объект AsyncComputedRef с состоянием и методами subscribe и dispose
+ */
+export function asyncComputed<T extends object, R>(
+    store: Store<T>,
+    getter: (state: T, signal: AbortSignal) => Promise<R>,
+    options?: IAsyncComputedOptions<R>,
+): AsyncComputedRef<R>;
+
+export function asyncComputed<T extends object[], R>(
+    stores: [...StoresTuple<T>],
+    getter: (states: StatesTuple<T>, signal: AbortSignal) => Promise<R>,
+    options?: IAsyncComputedOptions<R>,
+): AsyncComputedRef<R>;
+
+export function asyncComputed<R>(
+    storeOrStores: Store<object> | Store<object>[],
+    getter: (stateOrStates: never, signal: AbortSignal) => Promise<R>,
+    options: IAsyncComputedOptions<R> = {},
+): AsyncComputedRef<R> {
+    const stores = Array.isArray(storeOrStores) ? storeOrStores : [storeOrStores];
+    const listeners = new Set<(state: AsyncComputedState<R>) => void>();
+
+    let state: AsyncComputedState<R> = {
+        status: 'loading',
+        value: options.initial,
+        error: undefined,
+    };
+    let version = 0;
+    let runId = 0;
+    let controller: AbortController | undefined;
+    let disposed = false;
+
+    const source: IReactiveSource = {
+        get version() {
+            return version;
+        },
+        observers: new Set<IReactiveObserver>(),
+        refresh() {},
+    };
+
+    const setState = (next: AsyncComputedState<R>) => {
+        state = next;
+        version++;
+        source.observers.forEach((observer) => observer.invalidate('check'));
+        listeners.forEach((listener) => listener(state));
+    };
+
+    const getStates = () => {
+        const states = stores.map((store) => store.state);
+        return Array.isArray(storeOrStores) ? states : states[0];
+    };
+
+    const start = () => {
+        controller?.abort();
+        controller = new AbortController();
+
+        try {
+            return {
+                id: ++runId,
+                promise: Promise.resolve(getter(getStates() as never, controller.signal)),
+            };
+        } catch (error) {
+            return { id: ++runId, promise: Promise.reject<R>(error) };
+        }
+    };
+
+    const stop = createReaction(
+        start,
+        ({ id, promise }) => {
+            const loadingValue = options.keepPrevious ? state.value : options.initial;
+            if (state.status !== 'loading' || state.value !== loadingValue) {
+                setState({ status: 'loading', value: loadingValue, error: undefined });
+            }
+
+            promise.then(
+                (value) => {
+                    if (id === runId && !disposed) {
+                        setState({ status: 'success', value, error: undefined });
+                    }
+                },
+                (error) => {
+                    if (id === runId && !disposed) {
+                        setState({
+                            status: 'error',
+                            value: options.keepPrevious ? state.value : options.initial,
+                            error,
+                        });
+                    }
+                },
+            );
+        },
+        options.scheduler ?? 'microtask',
+    );
+
+    const read = () => {
+        trackSource(source);
+        return state;
+    };
+
+    return {
+        get status() {
+            return read().status;
+        },
+        get value() {
+            return read().value;
+        },
+        get error() {
+            return read().error;
+        },
+        subscribe(listener) {
+            listeners.add(listener);
+            return () => {
+                listeners.delete(listener);
+            };
+        },
+        dispose() {
+            if (!disposed) {
+                disposed = true;
+                stop();
+                controller?.abort();
+                listeners.clear();
+                source.observers.clear();
+            }
+        },
+    };
+}
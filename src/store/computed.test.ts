@@ -0,0 +1,131 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Store } from './store';
+import { computed } from './computed';
+import { StoreRegistry } from './registry';
+
+interface IGameState {
+    score: number;
+    multiplier: number;
+    isMenuOpen: boolean;
+    useBonus: boolean;
+    bonus: number;
+}
+
+const createGame = () =>
+    new Store<IGameState>({
+        score: 10,
+        multiplier: 2,
+        isMenuOpen: false,
+        useBonus: false,
+        bonus: 5,
+    });
+
+describe('computed', () => {
+    it('computes lazily and recomputes only when read fields change', () => {
+        const store = createGame();
+        const getter = vi.fn((state: IGameState) => state.score * state.multiplier);
+        const total = computed(store, getter);
+
+        expect(getter).not.toHaveBeenCalled();
+        expect(total.value).toBe(20);
+        expect(total.value).toBe(20);
+        expect(getter).toHaveBeenCalledOnce();
+
+        store.update(() => ({ isMenuOpen: true }));
+        expect(total.value).toBe(20);
+        expect(getter).toHaveBeenCalledOnce();
+
+        store.update(() => ({ multiplier: 3 }));
+        expect(total.value).toBe(30);
+        expect(getter).toHaveBeenCalledTimes(2);
+    });
+
+    it('tracks only the fields of the branch that ran', () => {
+        const store = createGame();
+        const getter = vi.fn((state: IGameState) => (state.useBonus ? state.bonus : 0));
+        const bonus = computed(store, getter);
+
+        expect(bonus.value).toBe(0);
+        store.update(() => ({ bonus: 7 }));
+        expect(bonus.value).toBe(0);
+        expect(getter).toHaveBeenCalledOnce();
+
+        store.update(() => ({ useBonus: true }));
+        expect(bonus.value).toBe(7);
+        store.update(() => ({ bonus: 8 }));
+        expect(bonus.value).toBe(8);
+    });
+
+    it('combines several stores', () => {
+        const counter = new Store({ count: 1 });
+        const factor = new Store({ multiplier: 2 });
+        const result = computed([counter, factor], ([c, f]) => c.count * f.multiplier);
+
+        factor.update(() => ({ multiplier: 5 }));
+
+        expect(result.value).toBe(5);
+    });
+
+    it('chains computeds without reading stale values', () => {
+        const store = createGame();
+        const total = computed(store, (state) => state.score * state.multiplier);
+        const summary = computed(
+            store,
+            (state) => `${state.score} x ${state.multiplier} = ${total.value}`,
+        );
+
+        expect(summary.value).toBe('10 x 2 = 20');
+        store.update(() => ({ score: 11 }));
+
+        expect(summary.value).toBe('11 x 2 = 22');
+    });
+
+    it('stops downstream recomputation when equals reports the same result', () => {
+        const store = createGame();
+        const rank = computed(store, (state) => Math.floor(state.score / 100));
+        const titleGetter = vi.fn(() => ['novice', 'expert'][rank.value]);
+        const title = computed(store, titleGetter);
+
+        expect(title.value).toBe('novice');
+        store.update(() => ({ score: 50 }));
+        expect(title.value).toBe('novice');
+        expect(titleGetter).toHaveBeenCalledOnce();
+
+        store.update(() => ({ score: 150 }));
+        expect(title.value).toBe('expert');
+        expect(titleGetter).toHaveBeenCalledTimes(2);
+    });
+
+    it('uses a custom equality function for the result', () => {
+        const store = createGame();
+        const pair = computed(store, (state) => [state.score % 2], {
+            equals: (a, b) => a[0] === b[0],
+        });
+
+        const first = pair.value;
+        store.update(() => ({ score: 12 }));
+
+        expect(pair.value).toBe(first);
+    });
+
+    it('detects circular dependencies', () => {
+        const store = createGame();
+        const refs: { b?: { value: number } } = {};
+        const a = computed(store, (state) => state.score + (refs.b?.value ?? 0));
+        refs.b = computed(store, () => a.value);
+
+        expect(() => a.value).toThrow('Circular dependency detected in computed properties');
+    });
+
+    it('registers by name and throws after dispose', () => {
+        const registry = new StoreRegistry();
+        const store = createGame();
+        const total = computed(store, (state) => state.score, { name: 'total', registry });
+
+        expect(registry.get('total')).toBe(total);
+        total.dispose();
+
+        expect(registry.has('total')).toBe(false);
+        expect(() => total.value).toThrow('Cannot access disposed computed value');
+    });
+});
@@ -1,9 +1,19 @@
 import { Store } from './store';
-
-const computedStack = new Set<ComputedRef<any>>();
+import { IComputedOptions, IWatchOptions } from './models';
+import { Dependencies, IReactiveObserver, IReactiveSource, trackSource } from './reactivity';
+import { watch } from './effect';
+import { storeRegistry } from './registry';
 
 export interface ComputedRef<T> {
     readonly value: T;
+    /**
+     * Подписаться на изменение значения.
+     * Слушатель получает новое и предыдущее значение.
+     */
+    subscribe: (
+        listener: (value: T, prev: T | undefined) => void,
+        options?: IWatchOptions<T>,
+    ) => () => void;
     dispose: () => void;
 }
 
@@ -14,104 +24,187 @@ type StatesTuple<T extends any[]> = { [K in keyof T]: T[K] };
 /**
  * Создает вычисляемое свойство, которое автоматически обновляется при изменении его зависимостей.
  * Поддерживает как одиночное хранилище, так и несколько хранилищ в качестве зависимостей.
- * 
+ *
  * Возможности:
  * - Ленивые вычисления (вычисляется только при обращении)
- * - Кэширование (пересчитывается только при изменении зависимостей)
+ * - Автоматическое отслеживание зависимостей: пересчет только при изменении прочитанных полей
+ * - Цепочки computed без промежуточных несогласованных значений
+ * - Функция сравнения, останавливающая пересчет зависимых computed
  * - Обнаружение циклических зависимостей
  * - Автоматическая очистка при выгрузке страницы
  * - Типобезопасность
- * 
+ *
+ * Зависимости собираются при каждом вычислении через Proxy состояния, поэтому
+ * поля, прочитанные только в одной из веток условия, отслеживаются только пока
+ * эта ветка выполняется.
+ *
  * @example
  * ```typescript
  * // Вычисляемое свойство с одним хранилищем
- * const store = new Store<GameState>({ score: 0, multiplier: 1 });
- * 
+ * const store = new Store<GameState>({ score: 0, multiplier: 1, isMenuOpen: false });
+ *
  * const totalScore = computed(
  *   store,
  *   state => state.score * state.multiplier
  * );
- * 
+ *
  * console.log(totalScore.value); // Доступ к вычисленному значению
- * 
+ * store.update(() => ({ isMenuOpen: true })); // totalScore не пересчитывается
+ *
+ * // Реакция на изменение значения
+ * const unsubscribe = totalScore.subscribe((value, prev) => hud.setScore(value));
+ *
  * // Вычисляемое свойство с несколькими хранилищами
  * const store1 = new Store<{count: number}>({ count: 1 });
  * const store2 = new Store<{multiplier: number}>({ multiplier: 2 });
- * 
+ *
  * const result = computed(
  *   [store1, store2],
  *   ([s1, s2]) => s1.count * s2.multiplier
  * );
- * 
+ *
+ * // Цепочка computed с функцией сравнения
+ * const rank = computed(store, state => Math.floor(totalScore.value / 1000));
+ * const title = computed(store, () => titles[rank.value]); // пересчитывается только при смене ранга
+ *
+ * // Регистрация в реестре хранилищ
+ * const bonus = computed(store, state => state.score * 0.1, { name: 'bonus' });
+ * storeRegistry.get<ComputedRef<number>>('bonus').value;
+ *
  * // Очистка, когда свойство больше не нужно
  * result.dispose();
  * ```
  *
  * @param store - Одно хранилище или массив хранилищ, от которых зависит свойство
  * @param getter - Функция, которая вычисляет значение на основе состояния хранилищ(а)
- * @returns Объект ComputedRef со свойством .value и методом dispose
+ * @param options - Функция сравнения результатов и имя для регистрации в реестре
+ * @returns Объект ComputedRef со свойством .value и методами subscribe и dispose
  */
 export function computed<T extends object, R>(
     store: Store<T>,
-    getter: (state: T) => R
+    getter: (state: T) => R,
+    options?: IComputedOptions<R>,
 ): ComputedRef<R>;
 
 export function computed<T extends object[], R>(
     stores: [...StoresTuple<T>],
-    getter: (states: StatesTuple<T>) => R
+    getter: (states: StatesTuple<T>) => R,
+    options?: IComputedOptions<R>,
 ): ComputedRef<R>;
 
-export function computed<T extends object | object[], R>(
+export function computed<R>(
     storeOrStores: Store<any> | Store<any>[],
-    getter: (stateOrStates: any) => R
+    getter: (stateOrStates: any) => R,
+    options: IComputedOptions<R> = {},
 ): ComputedRef<R> {
+    const equals = options.equals ?? Object.is;
+    const stores = Array.isArray(storeOrStores) ? storeOrStores : [storeOrStores];
+
     let cache: R | undefined;
+    let hasValue = false;
+    let version = 0;
+    let status: 'clean' | 'check' | 'dirty' = 'dirty';
+    let computing = false;
     let disposed = false;
-    const stores = Array.isArray(storeOrStores) ? storeOrStores : [storeOrStores];
+    const watchers = new Set<() => void>();
+    let unregister = () => {};
 
     const getStates = () => {
-        const states = stores.map(store => store.state);
+        const states = stores.map((store) => store.state);
         return Array.isArray(storeOrStores) ? states : states[0];
     };
 
-    const unsubscribes = stores.map(store =>
-        store.subscribe(() => {
-            if (!disposed) {
-                cache = undefined;
+    const node: IReactiveSource & IReactiveObserver = {
+        get version() {
+            return version;
+        },
+        observers: new Set(),
+        trackKey(store, key) {
+            dependencies.addKey(store, key);
+        },
+        trackSource(source) {
+            dependencies.addSource(source);
+        },
+        invalidate(level) {
+            if (disposed || status === 'dirty' || status === level) {
+                return;
             }
-        })
-    );
 
-    const ref: ComputedRef<R> = {
-        get value() {
+            const wasClean = status === 'clean';
+            status = level;
+            if (wasClean) {
+                node.observers.forEach((observer) => observer.invalidate('check'));
+            }
+        },
+        refresh() {
             if (disposed) {
                 throw new Error('Cannot access disposed computed value');
             }
 
-            if (computedStack.has(ref)) {
+            if (computing) {
                 throw new Error('Circular dependency detected in computed properties');
             }
 
-            if (cache === undefined) {
-                computedStack.add(ref);
-                try {
-                    cache = getter(getStates());
-                } finally {
-                    computedStack.delete(ref);
-                }
+            if (status === 'check') {
+                status = dependencies.sourcesChanged() ? 'dirty' : 'clean';
+            }
+
+            if (status === 'dirty') {
+                recompute();
             }
+        },
+    };
+
+    const dependencies = new Dependencies(node);
+
+    const recompute = () => {
+        computing = true;
+        let next: R;
+        try {
+            next = dependencies.collect(() => getter(getStates()));
+        } finally {
+            computing = false;
+        }
 
-            return cache;
+        status = 'clean';
+        if (!hasValue || !equals(cache as R, next)) {
+            cache = next;
+            hasValue = true;
+            version++;
+        }
+    };
+
+    const ref: ComputedRef<R> = {
+        get value() {
+            node.refresh();
+            trackSource(node);
+            return cache as R;
+        },
+        subscribe(listener, watchOptions) {
+            const stop = watch(ref, listener, watchOptions);
+            watchers.add(stop);
+            return () => {
+                watchers.delete(stop);
+                stop();
+            };
         },
         dispose() {
             if (!disposed) {
                 disposed = true;
-                unsubscribes.forEach(unsubscribe => unsubscribe());
+                watchers.forEach((stop) => stop());
+                watchers.clear();
+                unregister();
+                dependencies.clear();
+                node.observers.clear();
                 cache = undefined;
             }
-        }
+        },
     };
 
+    if (options.name) {
+        unregister = (options.registry ?? storeRegistry).register(options.name, ref);
+    }
+
     if (typeof window !== 'undefined') {
         window.addEventListener('unload', () => ref.dispose());
     }
@@ -0,0 +1,182 @@
+import { describe, expect, it } from 'vitest';
+import { Store } from './store';
+import {
+    connectDevtools,
+    IDevtoolsConnection,
+    IDevtoolsLiftedState,
+    IDevtoolsMessage,
+    IDevtoolsTransport,
+} from './devtools';
+
+interface IGameState {
+    score: number;
+    seen: Set<string>;
+}
+
+/**
+ * Фейковое расширение: запоминает отправленное и передает команды, сериализуя
+ * состояние так же, как Redux DevTools
+ */
+function createExtension() {
+    const sent: Array<{ action: { type: string } | null; state: unknown }> = [];
+    const inits: unknown[] = [];
+    const names: Array<string | undefined> = [];
+    let listener: (message: IDevtoolsMessage) => void = () => undefined;
+    let disconnected = false;
+
+    const connection: IDevtoolsConnection = {
+        init: (state) => inits.push(JSON.parse(JSON.stringify(state))),
+        send: (action, state) => sent.push({ action, state: JSON.parse(JSON.stringify(state)) }),
+        subscribe(next) {
+            listener = next;
+            return () => {
+                disconnected = true;
+            };
+        },
+    };
+    const transport: IDevtoolsTransport = {
+        connect: ({ name }) => {
+            names.push(name);
+            return connection;
+        },
+    };
+    const dispatch = (payload: IDevtoolsMessage['payload'], state?: unknown) =>
+        listener({
+            type: 'DISPATCH',
+            payload,
+            state: state === undefined ? undefined : JSON.stringify(state),
+        });
+
+    return { transport, sent, inits, names, dispatch, isDisconnected: () => disconnected };
+}
+
+const createStore = () => new Store<IGameState>({ score: 0, seen: new Set() });
+
+describe('connectDevtools', () => {
+    it('sends every change with its label and the encoded state', () => {
+        const extension = createExtension();
+        const store = createStore();
+        connectDevtools(store, { name: 'game', transport: extension.transport });
+
+        store.update(() => ({ score: 10, seen: new Set(['intro']) }), { label: 'enemy-killed' });
+
+        expect(extension.names).toEqual(['game']);
+        expect(extension.inits).toEqual([store.serializer.encode({ score: 0, seen: new Set() })]);
+        expect(extension.sent[0].action).toEqual({ type: 'enemy-killed' });
+        expect(store.serializer.decode(extension.sent[0].state)).toEqual({
+            score: 10,
+            seen: new Set(['intro']),
+        });
+    });
+
+    it('jumps to a state restoring Map, Set and Date values', () => {
+        const extension = createExtension();
+        const store = createStore();
+        connectDevtools(store, { transport: extension.transport });
+        store.update(() => ({ score: 5, seen: new Set(['a']) }));
+        store.update(() => ({ score: 7 }));
+
+        extension.dispatch({ type: 'JUMP_TO_STATE' }, extension.sent[0].state);
+
+        expect(store.state.score).toBe(5);
+        expect(store.cloneState().seen).toEqual(new Set(['a']));
+        expect(extension.sent).toHaveLength(2);
+    });
+
+    it('toggles an action and recomputes the later states', () => {
+        const extension = createExtension();
+        const store = new Store({ score: 0, level: 1 });
+        connectDevtools(store, { transport: extension.transport });
+        store.update(() => ({ score: 10 }));
+        store.update(() => ({ level: 2 }));
+
+        const lifted: Partial<IDevtoolsLiftedState> = { computedStates: [], skippedActionIds: [] };
+        extension.dispatch({ type: 'TOGGLE_ACTION', id: 1 }, lifted);
+
+        expect(store.state).toEqual({ score: 0, level: 2 });
+        const response = extension.sent[2].state as IDevtoolsLiftedState;
+        expect(response.skippedActionIds).toEqual([1]);
+        expect(response.computedStates.map(({ state }) => store.serializer.decode(state))).toEqual([
+            { score: 0, level: 1 },
+            { score: 0, level: 1 },
+            { score: 0, level: 2 },
+        ]);
+    });
+
+    it('keeps fields deleted by later actions deleted when toggling', () => {
+        const extension = createExtension();
+        const store = new Store<{ score: number; bonus?: number; level: number }>({
+            score: 0,
+            bonus: 5,
+            level: 1,
+        });
+        connectDevtools(store, { transport: extension.transport });
+        store.update(() => ({ score: 10 }));
+        store.reset({ score: 10, level: 1 });
+        store.update(() => ({ level: 2 }));
+
+        const lifted: Partial<IDevtoolsLiftedState> = { computedStates: [], skippedActionIds: [] };
+        extension.dispatch({ type: 'TOGGLE_ACTION', id: 1 }, lifted);
+
+        expect(store.state).toEqual({ score: 0, level: 2 });
+        expect('bonus' in store.rawState).toBe(false);
+    });
+
+    it('commits, resets and rolls back', () => {
+        const extension = createExtension();
+        const store = createStore();
+        connectDevtools(store, { transport: extension.transport });
+
+        store.update(() => ({ score: 3 }));
+        extension.dispatch({ type: 'COMMIT' });
+        expect(extension.inits).toHaveLength(2);
+
+        store.update(() => ({ score: 4 }));
+        extension.dispatch({ type: 'ROLLBACK' }, extension.inits[1]);
+        expect(store.state.score).toBe(3);
+
+        extension.dispatch({ type: 'RESET' });
+        expect(store.state.score).toBe(0);
+    });
+
+    it('imports a lifted history', () => {
+        const extension = createExtension();
+        const store = createStore();
+        connectDevtools(store, { transport: extension.transport });
+        const encode = (state: IGameState) => store.serializer.encode(state);
+
+        extension.dispatch({
+            type: 'IMPORT_STATE',
+            nextLiftedState: {
+                actionsById: { 1: { action: { type: 'add' } } },
+                computedStates: [
+                    { state: encode({ score: 1, seen: new Set() }) },
+                    { state: encode({ score: 2, seen: new Set(['b']) }) },
+                ],
+                skippedActionIds: [],
+                stagedActionIds: [0, 1],
+                currentStateIndex: 1,
+                nextActionId: 2,
+            },
+        });
+
+        expect(store.state.score).toBe(2);
+        expect(store.cloneState().seen).toEqual(new Set(['b']));
+    });
+
+    it('connects named stores as separate instances and disconnects', () => {
+        const extension = createExtension();
+        const devtools = connectDevtools(
+            { game: createStore(), ui: new Store({ open: false }) },
+            { name: 'app', transport: extension.transport },
+        );
+
+        expect(extension.names).toEqual(['app/game', 'app/ui']);
+        devtools.disconnect();
+        expect(extension.isDisconnected()).toBe(true);
+    });
+
+    it('does nothing without the extension', () => {
+        expect(() => connectDevtools(createStore()).disconnect()).not.toThrow();
+    });
+});
@@ -0,0 +1,284 @@
+import { Store } from './store';
+import { changedFields } from './utils';
+
+/**
+ * Состояние истории в формате Redux DevTools (lifted state)
+ */
+export interface IDevtoolsLiftedState {
+    actionsById: Record<number, { action: { type: string }; timestamp?: number }>;
+    computedStates: Array<{ state: unknown }>;
+    skippedActionIds: number[];
+    stagedActionIds: number[];
+    currentStateIndex: number;
+    nextActionId: number;
+    [key: string]: unknown;
+}
+
+/**
+ * Сообщение, которое расширение Redux DevTools отправляет приложению
+ */
+export interface IDevtoolsMessage {
+    type: string;
+    state?: string;
+    payload?: {
+        type: string;
+        id?: number;
+        nextLiftedState?: IDevtoolsLiftedState;
+    };
+}
+
+/**
+ * Соединение с одним экземпляром в Redux DevTools
+ */
+export interface IDevtoolsConnection {
+    init(state: unknown): void;
+    send(action: { type: string } | null, state: unknown): void;
+    subscribe(listener: (message: IDevtoolsMessage) => void): (() => void) | void;
+    unsubscribe?(): void;
+}
+
+/**
+ * Транспорт к Redux DevTools. Совместим с window.__REDUX_DEVTOOLS_EXTENSION__,
+ * в тестах его можно заменить фейковым объектом.
+ *
+ * @example
+ * ```typescript
+ * const transport: IDevtoolsTransport = {
+ *   connect: ({ name }) => fakeConnection(name)
+ * };
+ * ```
+ */
+export interface IDevtoolsTransport {
+    connect(options: { name?: string }): IDevtoolsConnection;
+}
+
+export interface IDevtoolsOptions {
+    /** Название экземпляра в DevTools */
+    name?: string;
+    /** Транспорт (по умолчанию расширение браузера, если оно установлено) */
+    transport?: IDevtoolsTransport;
+}
+
+export interface DevtoolsRef {
+    disconnect: () => void;
+}
+
+interface IRecordedAction<T> {
+    label: string;
+    changes: Partial<T>;
+    /** Поля, удаленные из состояния этим изменением */
+    removed: Array<keyof T>;
+}
+
+/** Записать изменение между состояниями вместе с удаленными полями */
+function recordAction<T extends object>(label: string, prev: T, next: T): IRecordedAction<T> {
+    const removed = (Object.keys(prev) as Array<keyof T>).filter((key) => !(key in next));
+    return { label, changes: changedFields(prev, next), removed };
+}
+
+const getExtension = (): IDevtoolsTransport | undefined =>
+    (globalThis as { __REDUX_DEVTOOLS_EXTENSION__?: IDevtoolsTransport })
+        .__REDUX_DEVTOOLS_EXTENSION__;
+
+function connectStore<T extends object>(
+    store: Store<T>,
+    name: string | undefined,
+    transport: IDevtoolsTransport,
+): () => void {
+    const connection = transport.connect({ name });
+    const serializer = store.serializer;
+    const initialState = store.cloneState();
+
+    let baseState = initialState;
+    let actions: IRecordedAction<T>[] = [];
+    const skipped = new Set<number>();
+    let applying = false;
+
+    const applyState = (state: T) => {
+        applying = true;
+        try {
+            store.reset(state);
+        } finally {
+            applying = false;
+        }
+    };
+
+    const computeStates = (): T[] => {
+        const states = [baseState];
+        actions.forEach((action, index) => {
+            const previous = states[states.length - 1];
+            if (skipped.has(index + 1)) {
+                states.push(previous);
+                return;
+            }
+
+            const next = { ...previous, ...action.changes };
+            action.removed.forEach((key) => delete next[key]);
+            states.push(next);
+        });
+        return states;
+    };
+
+    const restart = (state: T) => {
+        baseState = state;
+        actions = [];
+        skipped.clear();
+        connection.init(serializer.encode(state));
+    };
+
+    const handleDispatch = (message: IDevtoolsMessage) => {
+        switch (message.payload?.type) {
+            case 'JUMP_TO_STATE':
+            case 'JUMP_TO_ACTION':
+                if (message.state) {
+                    applyState(serializer.parse<T>(message.state));
+                }
+                break;
+            case 'TOGGLE_ACTION': {
+                const id = message.payload.id;
+                if (id === undefined || !message.state) break;
+
+                if (skipped.has(id)) {
+                    skipped.delete(id);
+                } else {
+                    skipped.add(id);
+                }
+
+                const states = computeStates();
+                applyState(states[states.length - 1]);
+
+                // Обертка истории - обычный JSON, состояния в ней заменяются пересчитанными
+                const liftedState: IDevtoolsLiftedState = JSON.parse(message.state);
+                liftedState.skippedActionIds = [...skipped];
+                liftedState.computedStates = states.map((state) => ({
+                    state: serializer.encode(state),
+                }));
+                connection.send(null, liftedState);
+                break;
+            }
+            case 'COMMIT':
+                restart(store.cloneState());
+                break;
+            case 'RESET':
+                applyState(initialState);
+                restart(initialState);
+                break;
+            case 'ROLLBACK':
+                if (message.state) {
+                    const state = serializer.parse<T>(message.state);
+                    applyState(state);
+                    restart(state);
+                }
+                break;
+            case 'IMPORT_STATE': {
+                const lifted = message.payload.nextLiftedState;
+                if (!lifted || lifted.computedStates.length === 0) break;
+
+                const states = lifted.computedStates.map((computed) =>
+                    serializer.decode<T>(computed.state),
+                );
+                baseState = states[0];
+                actions = states
+                    .slice(1)
+                    .map((state, index) =>
+                        recordAction(
+                            lifted.actionsById[index + 1]?.action.type ?? 'update',
+                            states[index],
+                            state,
+                        ),
+                    );
+                skipped.clear();
+                lifted.skippedActionIds.forEach((id) => skipped.add(id));
+
+                applyState(states[lifted.currentStateIndex ?? states.length - 1] ?? states[0]);
+                connection.send(null, lifted);
+                break;
+            }
+        }
+    };
+
+    connection.init(serializer.encode(initialState));
+
+    const unsubscribeStore = store.onCommit((state, prev, context) => {
+        if (applying) return;
+
+        const label = context.action?.type ?? context.label ?? 'update';
+        actions.push(recordAction(label, prev, state));
+        connection.send(
+            context.action ? { ...context.action } : { type: label },
+            serializer.encode(state),
+        );
+    });
+
+    const unsubscribeConnection = connection.subscribe((message) => {
+        if (message.type === 'DISPATCH') {
+            handleDispatch(message);
+        }
+    });
+
+    return () => {
+        unsubscribeStore();
+        if (typeof unsubscribeConnection === 'function') {
+            unsubscribeConnection();
+        }
+        connection.unsubscribe?.();
+    };
+}
+
+/**
+ * Подключает хранилище к Redux DevTools для отладки с перемещением во времени.
+ *
+ * Возможности:
+ * - Отправка каждого изменения с меткой и итоговым состоянием
+ * - Команды JUMP_TO_STATE, TOGGLE_ACTION, COMMIT, RESET, ROLLBACK и IMPORT_STATE
+ * - Несколько именованных хранилищ как отдельные экземпляры
+ * - Подменяемый транспорт для тестов без браузера
+ *
+ * Команды DevTools применяются к хранилищу через reset. Состояние передается
+ * в DevTools закодированным сериализатором хранилища, поэтому Map, Set, Date
+ * и классы с кодеками восстанавливаются при перемещении во времени.
+ * Если расширение не установлено и транспорт не передан, подключение не выполняется.
+ *
+ * @example
+ * ```typescript
+ * // Одно хранилище
+ * const devtools = connectDevtools(gameStore, { name: 'game' });
+ *
+ * // Несколько хранилищ - каждое отдельным экземпляром
+ * connectDevtools({ game: gameStore, ui: uiStore });
+ *
+ * gameStore.update(state => ({ score: state.score + 10 }), { label: 'enemy-killed' });
+ *
+ * devtools.disconnect();
+ * ```
+ *
+ * @param target - Хранилище или объект с именованными хранилищами
+ * @param options - Название экземпляра и транспорт
+ * @returns Объект DevtoolsRef для отключения
+ */
+export function connectDevtools<T extends object, S extends Record<string, object> = never>(
+    target: Store<T> | { [K in keyof S]: Store<S[K]> },
+    options: IDevtoolsOptions = {},
+): DevtoolsRef {
+    const transport = options.transport ?? getExtension();
+    if (!transport) {
+        return { disconnect: () => undefined };
+    }
+
+    const disconnects =
+        target instanceof Store
+            ? [connectStore(target, options.name, transport)]
+            : (Object.keys(target) as Array<keyof S & string>).map((name) =>
+                  connectStore(
+                      target[name],
+                      options.name ? `${options.name}/${name}` : name,
+                      transport,
+                  ),
+              );
+
+    return {
+        disconnect() {
+            disconnects.splice(0).forEach((disconnect) => disconnect());
+        },
+    };
+}
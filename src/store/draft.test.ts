@@ -0,0 +1,158 @@
+import { describe, expect, it } from 'vitest';
+import { Store } from './store';
+import { createDraft, finishDraft, updateAtPath } from './draft';
+
+interface IItem {
+    n: number;
+}
+
+interface IPlayerState {
+    p: { hp: number; inv: { items: IItem[] } };
+    log: string[];
+    other: { x: number };
+}
+
+/** Записывать исходные ссылки на состояние при каждом изменении */
+function recordCommits<T extends object>(store: Store<T>): Array<{ state: T; prev: T }> {
+    const commits: Array<{ state: T; prev: T }> = [];
+    store.onCommit((state, prev) => commits.push({ state, prev }));
+    return commits;
+}
+
+function createState(): IPlayerState {
+    return { p: { hp: 1, inv: { items: [{ n: 1 }] } }, log: [], other: { x: 0 } };
+}
+
+describe('produce', () => {
+    it('updates frozen development state and keeps untouched subtrees', () => {
+        const store = new Store(createState(), { mode: 'development' });
+        const commits = recordCommits(store);
+
+        store.produce((draft) => {
+            draft.p.hp = 2;
+        });
+
+        const [{ state: after, prev: before }] = commits;
+        expect(after.p.hp).toBe(2);
+        expect(after.p.inv).toBe(before.p.inv);
+        expect(after.other).toBe(before.other);
+        expect(before.p.hp).toBe(1);
+    });
+
+    it('supports push, delete and moving drafted values', () => {
+        const store = new Store(createState());
+        const commits = recordCommits(store);
+
+        store.produce((draft) => {
+            draft.log.push('hit');
+            draft.p.inv.items.push({ n: 2 });
+            draft.other = { x: draft.p.inv.items[0].n };
+            delete (draft.p as Partial<IPlayerState['p']>).hp;
+        });
+
+        const [{ state: after, prev: before }] = commits;
+        expect(after.log).toEqual(['hit']);
+        expect(after.p.inv.items).toEqual([{ n: 1 }, { n: 2 }]);
+        expect(after.p.inv.items[0]).toBe(before.p.inv.items[0]);
+        expect(after.other).toEqual({ x: 1 });
+        expect('hp' in after.p).toBe(false);
+        expect(before.log).toEqual([]);
+    });
+
+    it('replaces drafts placed inside newly assigned values', () => {
+        const base = { a: { v: 1 }, list: [] as Array<{ v: number }> };
+        const draft = createDraft(base);
+        draft.a.v = 2;
+        draft.list = [draft.a];
+
+        const result = finishDraft(draft);
+        expect(result.list[0]).toBe(result.a);
+        expect(result.a).toEqual({ v: 2 });
+        expect(base.a.v).toBe(1);
+    });
+
+    it('does not notify subscribers when the recipe changes nothing', async () => {
+        const store = new Store(createState());
+        let calls = 0;
+        store.subscribe(() => calls++);
+
+        store.produce((draft) => {
+            draft.p.hp = 1;
+        });
+        await Promise.resolve();
+
+        expect(calls).toBe(0);
+    });
+
+    it('returns the base when no draft was modified', () => {
+        const base = createState();
+        const draft = createDraft(base);
+        void draft.p.inv.items[0].n;
+        expect(finishDraft(draft)).toBe(base);
+    });
+
+    it('drafts Map and Set values without changing the committed ones', () => {
+        const store = new Store({
+            scores: new Map([['alice', { points: 1 }]]),
+            seen: new Set(['intro']),
+        });
+        const commits = recordCommits(store);
+
+        store.produce((draft) => {
+            draft.scores.set('bob', { points: 2 });
+            draft.scores.get('alice')!.points = 5;
+            draft.seen.add('forest');
+        });
+
+        const [{ state: after, prev: before }] = commits;
+        expect(after.scores).toEqual(
+            new Map([
+                ['alice', { points: 5 }],
+                ['bob', { points: 2 }],
+            ]),
+        );
+        expect(after.seen).toEqual(new Set(['intro', 'forest']));
+        expect(after.scores).toBeInstanceOf(Map);
+        expect(before.scores).toEqual(new Map([['alice', { points: 1 }]]));
+        expect(before.seen).toEqual(new Set(['intro']));
+    });
+
+    it('keeps untouched Map and Set values by reference', () => {
+        const base = { scores: new Map([['alice', { points: 1 }]]), seen: new Set([1]) };
+        const draft = createDraft(base);
+        draft.scores.set('alice', draft.scores.get('alice')!);
+        draft.seen.add(1);
+        void [...draft.scores.values()];
+
+        expect(finishDraft(draft)).toBe(base);
+    });
+
+    it('rejects defineProperty on drafts', () => {
+        const draft = createDraft({ a: 1 });
+        expect(() => Object.defineProperty(draft, 'b', { value: 1 })).toThrow(
+            'Object.defineProperty() is not supported on store drafts',
+        );
+    });
+});
+
+describe('setIn and updateIn', () => {
+    it('writes by path with structural sharing', () => {
+        const store = new Store(createState(), { mode: 'development' });
+        const commits = recordCommits(store);
+
+        store.setIn(['p', 'inv', 'items', 0, 'n'], 5);
+        store.updateIn(['p', 'hp'], (hp) => hp + 10);
+
+        const before = commits[0].prev;
+        const after = commits[1].state;
+        expect(after.p.inv.items[0].n).toBe(5);
+        expect(after.p.hp).toBe(11);
+        expect(after.other).toBe(before.other);
+    });
+
+    it('creates missing containers and keeps the base for no-op updates', () => {
+        const base = { a: 1 };
+        expect(updateAtPath(base, ['a'], () => 1)).toBe(base);
+        expect(updateAtPath({}, ['x', 0, 'y'], () => 2)).toEqual({ x: [{ y: 2 }] });
+    });
+});
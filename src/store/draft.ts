@@ -0,0 +1,410 @@
+type DraftObject = Record<PropertyKey, unknown>;
+type DraftCollection = Map<unknown, unknown> | Set<unknown>;
+
+interface DraftState<B extends object = object> {
+    base: B;
+    copy: B | undefined;
+    parent: DraftState | undefined;
+    /** Черновики вложенных значений по имени свойства или ключу Map */
+    children: Map<unknown, object>;
+    /** Копия уже завершена: черновик может встречаться в результате несколько раз */
+    finalized: boolean;
+}
+
+/** Состояния черновиков. Ключами служат сами черновики и целевые объекты их прокси */
+const drafts = new WeakMap<object, DraftState>();
+
+/**
+ * Проверить, можно ли создать черновик для значения.
+ * Черновики создаются только для простых объектов, массивов, Map и Set.
+ */
+function isDraftable(value: unknown): value is object {
+    if (typeof value !== 'object' || value === null) return false;
+    if (Array.isArray(value)) return true;
+
+    const proto = Object.getPrototypeOf(value);
+    return (
+        proto === Object.prototype ||
+        proto === null ||
+        proto === Map.prototype ||
+        proto === Set.prototype
+    );
+}
+
+function getDraftState(value: unknown): DraftState | undefined {
+    return typeof value === 'object' && value !== null ? drafts.get(value) : undefined;
+}
+
+function shallowCopy<T>(value: T): T {
+    if (value instanceof Map) return new Map(value) as T;
+    if (value instanceof Set) return new Set(value) as T;
+    return (Array.isArray(value) ? [...value] : { ...value }) as T;
+}
+
+function current<B extends object>(state: DraftState<B>): B {
+    return state.copy ?? state.base;
+}
+
+/** Создать копию черновика и его родителей, если они еще не скопированы */
+function markChanged<B extends object>(state: DraftState<B>): B {
+    if (state.copy === undefined) {
+        state.copy = shallowCopy(state.base);
+        if (state.parent) {
+            markChanged(state.parent);
+        }
+    }
+    return state.copy;
+}
+
+/**
+ * Получить вложенный черновик для значения из исходного объекта.
+ * Значения, уже замененные в копии, возвращаются как есть.
+ */
+function draftChild(state: DraftState, key: unknown, value: unknown, baseValue: unknown): unknown {
+    if (!isDraftable(value) || (state.copy !== undefined && value !== baseValue)) {
+        return value;
+    }
+
+    const child = createDraftProxy(value, state);
+    state.children.set(key, child);
+    return child;
+}
+
+function readProperty(state: DraftState<DraftObject>, prop: PropertyKey): unknown {
+    const cached = state.children.get(prop);
+    if (cached !== undefined) return cached;
+
+    const source = current(state);
+    if (!Object.prototype.hasOwnProperty.call(source, prop)) {
+        return source[prop];
+    }
+    return draftChild(state, prop, source[prop], state.base[prop]);
+}
+
+function readEntry(state: DraftState<Map<unknown, unknown>>, key: unknown): unknown {
+    const cached = state.children.get(key);
+    if (cached !== undefined) return cached;
+
+    return draftChild(state, key, current(state).get(key), state.base.get(key));
+}
+
+const stateOf = (target: object) => drafts.get(target) as DraftState<DraftObject>;
+
+const objectHandler: ProxyHandler<object> = {
+    get(target, prop) {
+        return readProperty(stateOf(target), prop);
+    },
+    set(target, prop, value) {
+        const state = stateOf(target);
+        if (prop in current(state) && Object.is(readProperty(state, prop), value)) {
+            return true;
+        }
+
+        markChanged(state)[prop] = value;
+        state.children.delete(prop);
+        return true;
+    },
+    deleteProperty(target, prop) {
+        const state = stateOf(target);
+        if (!Object.prototype.hasOwnProperty.call(current(state), prop)) {
+            return true;
+        }
+
+        delete markChanged(state)[prop];
+        state.children.delete(prop);
+        return true;
+    },
+    has(target, prop) {
+        return prop in current(stateOf(target));
+    },
+    ownKeys(target) {
+        return Reflect.ownKeys(current(stateOf(target)));
+    },
+    getOwnPropertyDescriptor(target, prop) {
+        const state = stateOf(target);
+        const descriptor = Reflect.getOwnPropertyDescriptor(current(state), prop);
+        if (!descriptor) return undefined;
+
+        const isArrayLength = Array.isArray(target) && prop === 'length';
+        return {
+            ...descriptor,
+            writable: true,
+            configurable: !isArrayLength,
+            value: readProperty(state, prop),
+        };
+    },
+    defineProperty() {
+        throw new Error('Object.defineProperty() is not supported on store drafts');
+    },
+    setPrototypeOf() {
+        throw new Error('Object.setPrototypeOf() is not supported on store drafts');
+    },
+};
+
+/**
+ * Методы черновика Map. Изменяющие методы пишут в копию,
+ * а значения при чтении оборачиваются во вложенные черновики.
+ */
+function createMapMethods(
+    state: DraftState<Map<unknown, unknown>>,
+    draft: Map<unknown, unknown>,
+): Record<PropertyKey, unknown> {
+    const get = (key: unknown) => readEntry(state, key);
+    function* entries(): IterableIterator<[unknown, unknown]> {
+        for (const key of [...current(state).keys()]) {
+            yield [key, get(key)];
+        }
+    }
+
+    return {
+        get,
+        set(key: unknown, value: unknown) {
+            if (current(state).has(key) && Object.is(get(key), value)) {
+                return draft;
+            }
+            markChanged(state).set(key, value);
+            state.children.delete(key);
+            return draft;
+        },
+        delete(key: unknown) {
+            if (!current(state).has(key)) return false;
+            state.children.delete(key);
+            return markChanged(state).delete(key);
+        },
+        clear() {
+            if (current(state).size === 0) return;
+            markChanged(state).clear();
+            state.children.clear();
+        },
+        forEach(
+            callback: (value: unknown, key: unknown, map: Map<unknown, unknown>) => void,
+            thisArg?: unknown,
+        ) {
+            for (const [key, value] of entries()) {
+                callback.call(thisArg, value, key, draft);
+            }
+        },
+        *values() {
+            for (const [, value] of entries()) {
+                yield value;
+            }
+        },
+        entries,
+        [Symbol.iterator]: entries,
+    };
+}
+
+/**
+ * Методы черновика Set. Изменяющие методы пишут в копию.
+ * Элементы Set возвращаются как есть, без вложенных черновиков.
+ */
+function createSetMethods(state: DraftState<Set<unknown>>, draft: Set<unknown>) {
+    return {
+        add(value: unknown) {
+            if (!current(state).has(value)) {
+                markChanged(state).add(value);
+            }
+            return draft;
+        },
+        delete(value: unknown) {
+            return current(state).has(value) && markChanged(state).delete(value);
+        },
+        clear() {
+            if (current(state).size > 0) {
+                markChanged(state).clear();
+            }
+        },
+        forEach(
+            callback: (value: unknown, key: unknown, set: Set<unknown>) => void,
+            thisArg?: unknown,
+        ) {
+            for (const value of [...current(state)]) {
+                callback.call(thisArg, value, value, draft);
+            }
+        },
+    };
+}
+
+function createCollectionDraft(state: DraftState<DraftCollection>): DraftCollection {
+    const target = state.base instanceof Map ? new Map() : new Set();
+    const methods: Record<PropertyKey, unknown> = {};
+    const draft = new Proxy(target, {
+        get(_, prop) {
+            if (Object.prototype.hasOwnProperty.call(methods, prop)) {
+                return methods[prop];
+            }
+            const source = current(state);
+            const value: unknown = Reflect.get(source, prop, source);
+            return typeof value === 'function' ? value.bind(source) : value;
+        },
+    });
+
+    Object.assign(
+        methods,
+        draft instanceof Map
+            ? createMapMethods(state as DraftState<Map<unknown, unknown>>, draft)
+            : createSetMethods(state as DraftState<Set<unknown>>, draft),
+    );
+    return draft;
+}
+
+function createDraftProxy<T extends object>(base: T, parent?: DraftState): T {
+    const state: DraftState = {
+        base,
+        copy: undefined,
+        parent,
+        children: new Map(),
+        finalized: false,
+    };
+
+    let draft: object;
+    if (base instanceof Map || base instanceof Set) {
+        draft = createCollectionDraft(state as DraftState<DraftCollection>);
+    } else {
+        const target = Array.isArray(base) ? [] : {};
+        draft = new Proxy(target, objectHandler);
+        drafts.set(target, state);
+    }
+    drafts.set(draft, state);
+    return draft as T;
+}
+
+/** Ключи контейнера: ключи Map либо собственные свойства объекта или массива */
+function keysOf(container: object): unknown[] {
+    return container instanceof Map ? [...container.keys()] : Object.keys(container);
+}
+
+function getEntry(container: object, key: unknown): unknown {
+    return container instanceof Map
+        ? container.get(key)
+        : (container as DraftObject)[key as PropertyKey];
+}
+
+function setEntry(container: object, key: unknown, value: unknown): void {
+    if (container instanceof Map) {
+        container.set(key, value);
+    } else {
+        (container as DraftObject)[key as PropertyKey] = value;
+    }
+}
+
+/**
+ * Завершить черновик. Обходятся только измененные черновики и новые значения,
+ * записанные в них: неизмененные поддеревья возвращаются как есть и не изменяются.
+ */
+function finalize(value: unknown, visited: Set<unknown>): unknown {
+    const state = getDraftState(value);
+    if (!state) return value;
+    if (state.copy === undefined) return state.base;
+
+    const result = state.copy;
+    if (state.finalized) return result;
+    state.finalized = true;
+
+    if (result instanceof Set) {
+        finalizeSet(result, state.base as Set<unknown>, visited);
+        return result;
+    }
+
+    for (const key of keysOf(result)) {
+        const child = getEntry(result, key);
+        const childDraft = state.children.get(key);
+        if (childDraft !== undefined && child === getDraftState(childDraft)?.base) {
+            setEntry(result, key, finalize(childDraft, visited));
+        } else if (getDraftState(child)) {
+            setEntry(result, key, finalize(child, visited));
+        } else if (child !== getEntry(state.base, key)) {
+            finalizeAssigned(child, visited);
+        }
+    }
+    return result;
+}
+
+/** Заменить черновики среди элементов Set, сохраняя порядок элементов */
+function finalizeSet(set: Set<unknown>, base: Set<unknown> | undefined, visited: Set<unknown>) {
+    const values = [...set];
+    set.clear();
+    for (const value of values) {
+        if (getDraftState(value)) {
+            set.add(finalize(value, visited));
+        } else {
+            if (!base?.has(value)) {
+                finalizeAssigned(value, visited);
+            }
+            set.add(value);
+        }
+    }
+}
+
+/**
+ * Заменить черновики внутри нового значения, записанного в черновик.
+ * Замороженные значения пропускаются: в них не может быть черновиков.
+ */
+function finalizeAssigned(value: unknown, visited: Set<unknown>): void {
+    if (!isDraftable(value) || Object.isFrozen(value) || visited.has(value)) return;
+    visited.add(value);
+
+    if (value instanceof Set) {
+        finalizeSet(value, undefined, visited);
+        return;
+    }
+
+    for (const key of keysOf(value)) {
+        const child = getEntry(value, key);
+        if (getDraftState(child)) {
+            setEntry(value, key, finalize(child, visited));
+        } else {
+            finalizeAssigned(child, visited);
+        }
+    }
+}
+
+/**
+ * Создать черновик значения. Изменения черновика записываются в копии
+ * только тех объектов, которые действительно были изменены.
+ * @param base Исходное значение, которое не будет изменено
+ * @returns Черновик, который можно изменять напрямую
+ */
+export function createDraft<T extends object>(base: T): T {
+    return createDraftProxy(base);
+}
+
+/**
+ * Завершить работу с черновиком и получить новое значение.
+ * Неизмененные поддеревья разделяются с исходным значением по ссылке.
+ * @param draft Черновик, созданный через createDraft
+ * @returns Новое значение или исходное, если изменений не было
+ */
+export function finishDraft<T extends object>(draft: T): T {
+    return finalize(draft, new Set()) as T;
+}
+
+/**
+ * Применить функцию к значению по вложенному пути со структурным разделением.
+ * Отсутствующие промежуточные объекты создаются автоматически.
+ * @param base Исходное значение
+ * @param path Путь к изменяемому значению
+ * @param updater Функция, возвращающая новое значение
+ * @returns Новое значение или исходное, если результат не изменился
+ */
+export function updateAtPath<V>(
+    base: unknown,
+    path: readonly PropertyKey[],
+    updater: (current: V) => V,
+): unknown {
+    if (path.length === 0) {
+        return updater(base as V);
+    }
+
+    const [key, ...rest] = path;
+    const container = (base ?? (typeof key === 'number' ? [] : {})) as DraftObject;
+    const current = container[key];
+    const next = updateAtPath(current, rest, updater);
+    if (Object.is(current, next) && base !== undefined && base !== null) {
+        return base;
+    }
+
+    const copy = shallowCopy(container);
+    copy[key] = next;
+    return copy;
+}
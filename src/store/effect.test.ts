@@ -0,0 +1,191 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Store } from './store';
+import { computed } from './computed';
+import { deepEqual } from './equality';
+import { effect, watch } from './effect';
+
+interface IPlayerState {
+    hp: number;
+    name: string;
+    position: { x: number; y: number };
+}
+
+const createPlayer = () =>
+    new Store<IPlayerState>({ hp: 100, name: 'A', position: { x: 0, y: 0 } });
+
+const tick = () => Promise.resolve();
+
+describe('ComputedRef.subscribe', () => {
+    it('calls the listener with the new and previous value', async () => {
+        const store = createPlayer();
+        const damage = computed(store, (state) => 100 - state.hp);
+        const listener = vi.fn();
+        const unsubscribe = damage.subscribe(listener);
+
+        store.update(() => ({ name: 'B' }));
+        await tick();
+        expect(listener).not.toHaveBeenCalled();
+
+        store.update(() => ({ hp: 80 }));
+        await tick();
+        expect(listener).toHaveBeenCalledWith(20, 0);
+
+        unsubscribe();
+        store.update(() => ({ hp: 70 }));
+        await tick();
+        expect(listener).toHaveBeenCalledOnce();
+    });
+
+    it('stops listeners when the computed is disposed', async () => {
+        const store = createPlayer();
+        const hp = computed(store, (state) => state.hp);
+        const listener = vi.fn();
+        hp.subscribe(listener);
+
+        hp.dispose();
+        store.update(() => ({ hp: 1 }));
+        await tick();
+
+        expect(listener).not.toHaveBeenCalled();
+    });
+});
+
+describe('watch', () => {
+    it('watches a selector once per batch of synchronous changes', async () => {
+        const store = createPlayer();
+        const callback = vi.fn();
+        watch(() => store.state.hp, callback);
+
+        store.update(() => ({ hp: 90 }));
+        store.update(() => ({ hp: 80 }));
+        await tick();
+
+        expect(callback).toHaveBeenCalledOnce();
+        expect(callback).toHaveBeenCalledWith(80, 100);
+    });
+
+    it('watches a whole store and calls immediately when asked', () => {
+        const store = createPlayer();
+        const callback = vi.fn();
+        watch(store, callback, { immediate: true, scheduler: 'sync' });
+
+        expect(callback).toHaveBeenCalledWith(store.cloneState(), undefined);
+        store.update(() => ({ name: 'C' }));
+
+        expect(callback).toHaveBeenCalledTimes(2);
+        expect(callback.mock.lastCall?.[0]).toMatchObject({ name: 'C' });
+    });
+
+    it('notices changed Map and Date values with the default equality', () => {
+        const store = new Store({ scores: new Map([['a', 1]]), savedAt: new Date(0) });
+        const scores = vi.fn();
+        const savedAt = vi.fn();
+        watch(() => store.state.scores, scores, { scheduler: 'sync' });
+        watch(() => store.state.savedAt, savedAt, { scheduler: 'sync' });
+
+        store.update(() => ({ scores: new Map([['a', 1]]), savedAt: new Date(0) }));
+        expect(scores).not.toHaveBeenCalled();
+        expect(savedAt).not.toHaveBeenCalled();
+
+        store.update(() => ({ scores: new Map([['a', 2]]), savedAt: new Date(1000) }));
+        expect(scores).toHaveBeenCalledOnce();
+        expect(savedAt).toHaveBeenCalledOnce();
+    });
+
+    it('skips equal values using the equals option', () => {
+        const store = createPlayer();
+        const shallow = vi.fn();
+        const deep = vi.fn();
+        watch(() => store.state.position, shallow, { scheduler: 'sync' });
+        watch(() => store.state.position, deep, { scheduler: 'sync', equals: deepEqual });
+
+        store.update(() => ({ position: { x: 0, y: 0 } }));
+
+        expect(shallow).not.toHaveBeenCalled();
+        expect(deep).not.toHaveBeenCalled();
+
+        store.update(() => ({ position: { x: 1, y: 0 } }));
+        expect(shallow).toHaveBeenCalledOnce();
+        expect(deep).toHaveBeenCalledOnce();
+    });
+
+    it('stops watching after the returned function is called', async () => {
+        const store = createPlayer();
+        const callback = vi.fn();
+        const stop = watch(() => store.state.hp, callback);
+
+        stop();
+        store.update(() => ({ hp: 1 }));
+        await tick();
+
+        expect(callback).not.toHaveBeenCalled();
+    });
+});
+
+describe('effect', () => {
+    it('re-runs when read stores and computeds change', async () => {
+        const store = createPlayer();
+        const label = computed(store, (state) => `${state.name}:${state.hp}`);
+        const seen: string[] = [];
+        effect(() => {
+            seen.push(`${label.value} at ${store.state.position.x}`);
+        });
+
+        store.update(() => ({ hp: 50 }));
+        store.update(() => ({ position: { x: 3, y: 0 } }));
+        await tick();
+
+        expect(seen).toEqual(['A:100 at 0', 'A:50 at 3']);
+    });
+
+    it('runs the cleanup before the next run and on dispose', async () => {
+        const store = createPlayer();
+        const cleanup = vi.fn();
+        const run = vi.fn(() => {
+            void store.state.hp;
+            return cleanup;
+        });
+        const ref = effect(run);
+
+        store.update(() => ({ hp: 1 }));
+        await tick();
+        expect(run).toHaveBeenCalledTimes(2);
+        expect(cleanup).toHaveBeenCalledOnce();
+
+        ref.dispose();
+        expect(cleanup).toHaveBeenCalledTimes(2);
+
+        store.update(() => ({ hp: 2 }));
+        await tick();
+        expect(run).toHaveBeenCalledTimes(2);
+    });
+
+    it('uses a custom scheduler', () => {
+        const store = createPlayer();
+        const jobs: Array<() => void> = [];
+        const run = vi.fn(() => {
+            void store.state.hp;
+        });
+        effect(run, { scheduler: (job) => jobs.push(job) });
+
+        store.update(() => ({ hp: 5 }));
+        expect(run).toHaveBeenCalledOnce();
+
+        jobs.forEach((job) => job());
+        expect(run).toHaveBeenCalledTimes(2);
+    });
+
+    it('does not re-run for changes it makes itself', async () => {
+        const store = createPlayer();
+        const run = vi.fn(() => {
+            if (store.state.hp > 50) {
+                store.update(() => ({ hp: 50 }));
+            }
+        });
+        effect(run);
+        await tick();
+
+        expect(run).toHaveBeenCalledOnce();
+        expect(store.state.hp).toBe(50);
+    });
+});
@@ -0,0 +1,156 @@
+import { Store } from './store';
+import type { ComputedRef } from './computed';
+import { shallowEqual } from './equality';
+import { IEffectOptions, IWatchOptions } from './models';
+import { ALL_KEYS, createReaction, runTracked, trackKey } from './reactivity';
+
+export interface EffectRef {
+    dispose: () => void;
+}
+
+/** Функция очистки, которую эффект возвращает перед следующим запуском */
+type EffectCleanup = () => void;
+
+/**
+ * Запускает функцию и перезапускает ее, когда меняются прочитанные в ней поля
+ * хранилищ или значения computed.
+ *
+ * Функция может вернуть функцию очистки: она вызывается перед следующим запуском
+ * и при dispose. По умолчанию перезапуск выполняется один раз в микрозадаче после
+ * всех синхронных изменений.
+ *
+ * @example
+ * ```typescript
+ * const ref = effect(() => {
+ *   const timer = setInterval(spawnEnemy, gameStore.state.spawnInterval);
+ *   return () => clearInterval(timer);
+ * });
+ *
+ * // Перерисовка не чаще одного раза за кадр
+ * effect(() => renderHud(playerStore.state.hp, totalScore.value), {
+ *   scheduler: job => requestAnimationFrame(job)
+ * });
+ *
+ * ref.dispose();
+ * ```
+ *
+ * @param fn - Функция эффекта, может вернуть функцию очистки
+ * @param options - Способ запуска после изменения зависимостей
+ * @returns Объект EffectRef с методом dispose
+ */
+export function effect(fn: () => void | EffectCleanup, options: IEffectOptions = {}): EffectRef {
+    let cleanup: void | EffectCleanup;
+
+    const runCleanup = () => {
+        const current = cleanup;
+        cleanup = undefined;
+        if (typeof current === 'function') {
+            runTracked(null, current);
+        }
+    };
+
+    const stop = createReaction(
+        () => {
+            runCleanup();
+            return fn();
+        },
+        (result) => {
+            cleanup = result;
+        },
+        options.scheduler ?? 'microtask',
+    );
+
+    let disposed = false;
+    return {
+        dispose() {
+            if (!disposed) {
+                disposed = true;
+                stop();
+                runCleanup();
+            }
+        },
+    };
+}
+
+/**
+ * Наблюдает за хранилищем, селектором или computed и вызывает обработчик,
+ * когда наблюдаемое значение изменилось.
+ *
+ * Селектор - функция без аргументов, все прочитанные в ней поля хранилищ
+ * и computed становятся зависимостями. Для хранилища отслеживается все состояние.
+ *
+ * @example
+ * ```typescript
+ * // Селектор
+ * const stop = watch(
+ *   () => playerStore.state.hp,
+ *   (hp, prevHp) => hud.flash(hp < (prevHp ?? hp))
+ * );
+ *
+ * // Computed со стартовым вызовом
+ * watch(totalScore, score => hud.setScore(score), { immediate: true });
+ *
+ * // Все хранилище
+ * watch(settingsStore, settings => saveSettings(settings), { equals: deepEqual });
+ *
+ * stop();
+ * ```
+ *
+ * @param source - Хранилище, селектор или computed
+ * @param callback - Обработчик, получающий новое и предыдущее значение
+ * @param options - Стартовый вызов, функция сравнения и способ запуска
+ * @returns Функция остановки наблюдения
+ */
+export function watch<T extends object>(
+    source: Store<T>,
+    callback: (state: T, prev: T | undefined) => void,
+    options?: IWatchOptions<T>,
+): () => void;
+
+export function watch<V>(
+    source: ComputedRef<V> | (() => V),
+    callback: (value: V, prev: V | undefined) => void,
+    options?: IWatchOptions<V>,
+): () => void;
+
+export function watch<V>(
+    source: Store<V & object> | ComputedRef<V> | (() => V),
+    callback: (value: V, prev: V | undefined) => void,
+    options: IWatchOptions<V> = {},
+): () => void {
+    const equals = options.equals ?? shallowEqual;
+
+    const getter: () => V =
+        source instanceof Store
+            ? () => {
+                  trackKey(source, ALL_KEYS);
+                  return { ...source.state } as V;
+              }
+            : typeof source === 'function'
+              ? source
+              : () => source.value;
+
+    let initialized = false;
+    let current: V;
+
+    return createReaction(
+        getter,
+        (value) => {
+            if (!initialized) {
+                initialized = true;
+                current = value;
+                if (options.immediate) {
+                    callback(value, undefined);
+                }
+                return;
+            }
+
+            if (equals(value, current)) return;
+
+            const prev = current;
+            current = value;
+            callback(value, prev);
+        },
+        options.scheduler ?? 'microtask',
+    );
+}
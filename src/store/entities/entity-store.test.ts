@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import { Store } from '../store';
+import { IEntityState } from './types';
+import { EntityStore } from './entity-store';
+
+interface IUnit {
+    id: string;
+    team: 'red' | 'blue';
+    hp: number;
+}
+
+const red = (id: string, hp = 100): IUnit => ({ id, team: 'red', hp });
+const blue = (id: string, hp = 100): IUnit => ({ id, team: 'blue', hp });
+
+const teamIds = (store: EntityStore<IUnit>, team: IUnit['team']) =>
+    store.selectIdsByIndex('team', team).sort();
+
+describe('EntityStore', () => {
+    it('adds, updates and removes entities in normalized form', () => {
+        const units = new EntityStore<IUnit>([red('u1')]);
+
+        units.addOne(red('u1', 1));
+        units.addMany([blue('u2'), blue('u3')]);
+        units.upsert(red('u2', 50));
+        units.updateOne('u1', (unit) => ({ hp: unit.hp - 30 }));
+        units.removeOne('u3');
+
+        expect(units.selectIds()).toEqual(['u1', 'u2']);
+        expect(units.selectById('u1')).toEqual(red('u1', 70));
+        expect(units.selectById('u2')).toEqual(red('u2', 50));
+        expect(units.selectTotal()).toBe(2);
+
+        units.removeAll();
+        expect(units.selectAll()).toEqual([]);
+    });
+
+    it('keeps entities sorted and memoizes selectAll', () => {
+        const units = new EntityStore<IUnit>([red('a', 10), red('b', 30)], {
+            sortComparer: (a, b) => b.hp - a.hp,
+        });
+        units.addOne(red('c', 20));
+
+        const all = units.selectAll();
+        expect(all.map((unit) => unit.id)).toEqual(['b', 'c', 'a']);
+        expect(units.selectAll()).toBe(all);
+
+        units.updateOne('a', { hp: 40 });
+        expect(units.selectAll()).not.toBe(all);
+        expect(units.selectIds()).toEqual(['a', 'b', 'c']);
+    });
+
+    it('maintains secondary indexes for collection methods', () => {
+        const units = new EntityStore<IUnit>([red('u1'), blue('u2')], {
+            indexes: { team: 'team', alive: (unit) => unit.hp > 0 },
+        });
+
+        units.updateOne('u1', { team: 'blue', hp: 0 });
+        units.addOne(red('u3'));
+        units.removeOne('u2');
+
+        expect(teamIds(units, 'blue')).toEqual(['u1']);
+        expect(teamIds(units, 'red')).toEqual(['u3']);
+        expect(units.selectIdsByIndex('alive', false)).toEqual(['u1']);
+        expect(units.selectByIndex('team', 'red')).toEqual([red('u3')]);
+    });
+
+    it('reindexes entities changed by middleware during a collection method', () => {
+        const units = new EntityStore<IUnit>([red('u1'), red('u2')], {
+            indexes: { team: 'team' },
+            middleware: [
+                (state, update, next) => {
+                    const entities = update.entities;
+                    if (!entities) return next(state, update);
+                    // Изменение одной сущности переводит в другую команду и вторую
+                    return next(state, {
+                        ...update,
+                        entities: { ...entities, u2: { ...entities.u2, team: 'blue' } },
+                    });
+                },
+            ],
+        });
+
+        units.updateOne('u1', { team: 'blue' });
+
+        expect(teamIds(units, 'blue')).toEqual(['u1', 'u2']);
+        expect(teamIds(units, 'red')).toEqual([]);
+    });
+
+    it('keeps indexes consistent after reset, update and batch rollback', () => {
+        const units = new EntityStore<IUnit, string>([red('u1'), blue('u2')], {
+            indexes: { team: 'team' },
+        });
+
+        units.update((state) => ({ entities: { ...state.entities, u2: red('u2') } }));
+        expect(teamIds(units, 'red')).toEqual(['u1', 'u2']);
+
+        const state: IEntityState<IUnit> = { ids: ['u5'], entities: { u5: blue('u5') } };
+        units.reset(state);
+        expect(teamIds(units, 'red')).toEqual([]);
+        expect(teamIds(units, 'blue')).toEqual(['u5']);
+
+        expect(() =>
+            Store.batch(() => {
+                units.addOne(red('u6'));
+                expect(teamIds(units, 'red')).toEqual(['u6']);
+                throw new Error('rollback');
+            }),
+        ).toThrow('rollback');
+        expect(teamIds(units, 'red')).toEqual([]);
+        expect(units.selectIds()).toEqual(['u5']);
+    });
+
+    it('indexes entities with numeric ids', () => {
+        const items = new EntityStore<{ id: number; kind: string }, number>(
+            [{ id: 1, kind: 'sword' }],
+            { indexes: { kind: 'kind' } },
+        );
+
+        items.reset({ ids: [1], entities: { 1: { id: 1, kind: 'shield' } } });
+        expect(items.selectIdsByIndex('kind', 'shield')).toEqual([1]);
+        expect(items.selectIdsByIndex('kind', 'sword')).toEqual([]);
+    });
+
+    it('throws for entities without id and unknown indexes', () => {
+        expect(() => new EntityStore<{ name: string }>([{ name: 'x' }])).toThrow(
+            'Entity id is undefined. Provide selectId for entities without an "id" field',
+        );
+        expect(() => new EntityStore<IUnit>().selectByIndex('team', 'red')).toThrow(
+            'Index "team" is not defined',
+        );
+    });
+});
@@ -0,0 +1,451 @@
+import { Store } from '../store';
+import { DeepReadonly, UpdateContext } from '../models';
+import {
+    EntityChanges,
+    EntityComparer,
+    EntityId,
+    EntityIndexKey,
+    IEntityState,
+    IEntityStoreOptions,
+} from './types';
+
+/** Вторичный индекс: значение ключа каждой сущности и сущности по значению */
+interface IEntityIndex<E, Id> {
+    key: (entity: E) => unknown;
+    keysById: Map<Id, unknown>;
+    buckets: Map<unknown, Set<Id>>;
+}
+
+/** Идентификатор из поля id. Его отсутствие проверяет entityId */
+const defaultSelectId = <E, Id extends EntityId>(entity: E): Id => (entity as { id: Id }).id;
+
+/**
+ * Получить идентификатор сущности, проверив, что он определен
+ */
+function entityId<E, Id extends EntityId>(entity: E, selectId: (entity: E) => Id): Id {
+    const id = selectId(entity);
+    if (id === undefined || id === null) {
+        throw new Error(
+            'Entity id is undefined. Provide selectId for entities without an "id" field',
+        );
+    }
+    return id;
+}
+
+/**
+ * Упорядочить идентификаторы сортировкой сущностей, если задана функция сравнения
+ */
+function sortIds<E, Id extends EntityId>(
+    ids: Id[],
+    entities: Record<Id, E>,
+    comparer: EntityComparer<E> | undefined,
+): Id[] {
+    return comparer ? [...ids].sort((a, b) => comparer(entities[a], entities[b])) : ids;
+}
+
+/**
+ * Создать нормализованное состояние из списка сущностей.
+ * Если идентификатор повторяется, используется первая сущность
+ */
+function normalize<E, Id extends EntityId>(
+    list: E[],
+    selectId: (entity: E) => Id,
+    comparer: EntityComparer<E> | undefined,
+): IEntityState<E, Id> {
+    const ids: Id[] = [];
+    const entities = {} as Record<Id, E>;
+    list.forEach((entity) => {
+        const id = entityId(entity, selectId);
+        if (!(id in entities)) {
+            ids.push(id);
+            entities[id] = entity;
+        }
+    });
+    return { ids: sortIds(ids, entities, comparer), entities };
+}
+
+function toIndexKey<E>(key: EntityIndexKey<E>): (entity: E) => unknown {
+    return typeof key === 'function' ? key : (entity) => entity[key];
+}
+
+/**
+ * Хранилище коллекции сущностей в нормализованном виде { ids, entities }.
+ *
+ * Возможности:
+ * - Поиск по идентификатору без перебора коллекции
+ * - Добавление, обновление и удаление одной или нескольких сущностей
+ * - Сортировка коллекции функцией сравнения
+ * - Мемоизированные селекторы: selectAll возвращает тот же массив, пока коллекция не изменилась
+ * - Вторичные индексы по значениям полей, которые обновляются только для измененных сущностей
+ *
+ * Изменения проходят через update, поэтому работают middleware, валидаторы, batch,
+ * история и подписки. Индексы остаются согласованными и при reset, откате batch
+ * и других изменениях в обход методов коллекции - тогда измененные сущности
+ * находятся сравнением коллекций по ссылкам.
+ *
+ * @example
+ * ```typescript
+ * interface Unit { id: string; team: 'red' | 'blue'; hp: number; }
+ *
+ * const units = new EntityStore<Unit>([], {
+ *   sortComparer: (a, b) => b.hp - a.hp,
+ *   indexes: { team: 'team' }
+ * });
+ *
+ * units.addMany([
+ *   { id: 'u1', team: 'red', hp: 100 },
+ *   { id: 'u2', team: 'blue', hp: 80 }
+ * ]);
+ * units.updateOne('u1', unit => ({ hp: unit.hp - 30 }));
+ * units.removeOne('u2');
+ *
+ * units.selectById('u1');            // { id: 'u1', team: 'red', hp: 70 }
+ * units.selectByIndex('team', 'red'); // [{ id: 'u1', ... }]
+ * units.selectTotal();               // 1
+ * ```
+ *
+ * @template E Тип сущности
+ * @template Id Тип идентификатора
+ */
+export class EntityStore<E extends object, Id extends EntityId = string> extends Store<
+    IEntityState<E, Id>
+> {
+    private _selectId: (entity: E) => Id;
+    private _sortComparer: EntityComparer<E> | undefined;
+    private _indexes = new Map<string, IEntityIndex<E, Id>>();
+    /** Коллекция, по которой построены индексы */
+    private _indexedEntities: Record<Id, E> | null = null;
+    /** Сущности, измененные с последнего опубликованного состояния */
+    private _dirtyIds = new Set<Id>();
+    /** Индексы нужно построить целиком */
+    private _rebuildIndexes = true;
+    /** Коллекция, которую записывает текущий вызов метода коллекции, и затронутые им сущности */
+    private _pendingWrite: { touched: Id[]; entities: Record<Id, E> } | null = null;
+    private _selectAllCache: { ids: unknown; entities: unknown; result: DeepReadonly<E>[] } | null =
+        null;
+    private _indexCache = new Map<string, Map<unknown, DeepReadonly<E>[]>>();
+
+    /**
+     * @param entities Начальные сущности
+     * @param options Получение идентификатора, сортировка, индексы, middleware и валидаторы
+     * @throws Error если у сущности не определен идентификатор
+     */
+    constructor(entities: E[] = [], options: IEntityStoreOptions<E, Id> = {}) {
+        const selectId: (entity: E) => Id = options.selectId ?? defaultSelectId;
+        super(normalize(entities, selectId, options.sortComparer), options);
+        this._selectId = selectId;
+        this._sortComparer = options.sortComparer;
+
+        Object.entries(options.indexes ?? {}).forEach(([name, key]) => {
+            this._indexes.set(name, {
+                key: toIndexKey(key),
+                keysById: new Map(),
+                buckets: new Map(),
+            });
+        });
+        this.syncIndexes();
+        this._rebuildIndexes = false;
+
+        this.onCommit(() => {
+            this.syncIndexes();
+            this._dirtyIds.clear();
+            this._rebuildIndexes = false;
+        });
+    }
+
+    /**
+     * Добавить сущность. Если сущность с таким идентификатором уже есть, она не изменяется
+     * @param entity Новая сущность
+     */
+    public addOne(entity: E): void {
+        this.addMany([entity]);
+    }
+
+    /**
+     * Добавить сущности. Сущности с уже существующими идентификаторами пропускаются
+     * @param entities Новые сущности
+     */
+    public addMany(entities: E[]): void {
+        const current = this.rawState;
+        const added = normalize(
+            entities.filter((entity) => !(entityId(entity, this._selectId) in current.entities)),
+            this._selectId,
+            undefined,
+        );
+        if (added.ids.length === 0) return;
+
+        const nextEntities = { ...current.entities, ...added.entities };
+        this.write(added.ids, [...current.ids, ...added.ids], nextEntities, { label: 'addMany' });
+    }
+
+    /**
+     * Добавить сущность или объединить ее поля с существующей
+     * @param entity Сущность
+     */
+    public upsert(entity: E): void {
+        this.upsertMany([entity]);
+    }
+
+    /**
+     * Добавить сущности или объединить их поля с существующими
+     * @param entities Сущности
+     */
+    public upsertMany(entities: E[]): void {
+        if (entities.length === 0) return;
+
+        const current = this.rawState;
+        const nextEntities = { ...current.entities };
+        const touched: Id[] = [];
+        const added: Id[] = [];
+        entities.forEach((entity) => {
+            const id = entityId(entity, this._selectId);
+            const existing = nextEntities[id];
+            if (existing === undefined) {
+                added.push(id);
+            }
+            nextEntities[id] = existing === undefined ? entity : { ...existing, ...entity };
+            touched.push(id);
+        });
+
+        const ids = added.length > 0 ? [...current.ids, ...added] : current.ids;
+        this.write(touched, ids, nextEntities, { label: 'upsertMany' });
+    }
+
+    /**
+     * Изменить поля существующей сущности. Если сущности нет, ничего не происходит
+     * @param id Идентификатор сущности
+     * @param changes Новые значения полей или функция, возвращающая их по текущей сущности
+     * @throws Error если изменения меняют идентификатор сущности
+     */
+    public updateOne(id: Id, changes: EntityChanges<E>): void {
+        const current = this.rawState;
+        const entity = current.entities[id];
+        if (entity === undefined) return;
+
+        const next = { ...entity, ...(typeof changes === 'function' ? changes(entity) : changes) };
+        if (this._selectId(next) !== id) {
+            throw new Error(`Entity id cannot be changed by updateOne (entity "${id}")`);
+        }
+
+        this.write([id], current.ids, { ...current.entities, [id]: next }, { label: 'updateOne' });
+    }
+
+    /**
+     * Удалить сущность
+     * @param id Идентификатор сущности
+     */
+    public removeOne(id: Id): void {
+        this.removeMany([id]);
+    }
+
+    /**
+     * Удалить сущности. Отсутствующие идентификаторы пропускаются
+     * @param ids Идентификаторы сущностей
+     */
+    public removeMany(ids: Id[]): void {
+        const current = this.rawState;
+        const removed = new Set(ids.filter((id) => id in current.entities));
+        if (removed.size === 0) return;
+
+        const nextEntities = { ...current.entities };
+        removed.forEach((id) => delete nextEntities[id]);
+        const nextIds = current.ids.filter((id) => !removed.has(id));
+        this.write([...removed], nextIds, nextEntities, { label: 'removeMany' });
+    }
+
+    /**
+     * Удалить все сущности
+     */
+    public removeAll(): void {
+        this.removeMany(this.rawState.ids);
+    }
+
+    /**
+     * Получить сущность по идентификатору
+     * @param id Идентификатор сущности
+     */
+    public selectById(id: Id): DeepReadonly<E> | undefined {
+        return (this.state.entities as Record<Id, DeepReadonly<E>>)[id];
+    }
+
+    /**
+     * Получить идентификаторы в порядке коллекции
+     */
+    public selectIds(): readonly Id[] {
+        return this.state.ids as readonly Id[];
+    }
+
+    /**
+     * Получить все сущности в порядке коллекции.
+     * Возвращает тот же массив, пока коллекция не изменилась
+     */
+    public selectAll(): DeepReadonly<E>[] {
+        const { ids, entities } = this.state;
+        const cache = this._selectAllCache;
+        if (cache?.ids === ids && cache.entities === entities) {
+            return cache.result;
+        }
+
+        const byId = entities as Record<Id, DeepReadonly<E>>;
+        const result = (ids as readonly Id[]).map((id) => byId[id]);
+        this._selectAllCache = { ids, entities, result };
+        return result;
+    }
+
+    /**
+     * Получить количество сущностей
+     */
+    public selectTotal(): number {
+        return this.state.ids.length;
+    }
+
+    /**
+     * Получить сущности со значением ключа индекса в порядке их попадания в индекс.
+     * Возвращает тот же массив, пока коллекция не изменилась
+     * @param index Имя индекса из опции indexes
+     * @param value Значение ключа индекса
+     * @throws Error если индекс не объявлен
+     */
+    public selectByIndex(index: string, value: unknown): DeepReadonly<E>[] {
+        const entities = this.state.entities as Record<Id, DeepReadonly<E>>;
+        const bucket = this.indexBucket(index, value);
+
+        let cache = this._indexCache.get(index);
+        if (!cache) {
+            cache = new Map();
+            this._indexCache.set(index, cache);
+        }
+
+        let result = cache.get(value);
+        if (!result) {
+            result = bucket ? [...bucket].map((id) => entities[id]) : [];
+            cache.set(value, result);
+        }
+        return result;
+    }
+
+    /**
+     * Получить идентификаторы сущностей со значением ключа индекса
+     * @param index Имя индекса из опции indexes
+     * @param value Значение ключа индекса
+     * @throws Error если индекс не объявлен
+     */
+    public selectIdsByIndex(index: string, value: unknown): Id[] {
+        // Чтение коллекции отслеживается, чтобы computed пересчитывались при ее изменении
+        void this.state.entities;
+        return [...(this.indexBucket(index, value) ?? [])];
+    }
+
+    /**
+     * Все изменения проходят через commit. Если записывается коллекция, созданная методом
+     * коллекции, отмечаются затронутые им сущности. Иначе (reset, update, изменение
+     * коллекции в middleware) измененные сущности находятся сравнением по ссылкам
+     */
+    protected commit(next: IEntityState<E, Id>, context: UpdateContext = {}): void {
+        const current = this.rawState.entities;
+        if (next.entities !== current) {
+            const pending = this._pendingWrite;
+            if (pending?.entities === next.entities) {
+                pending.touched.forEach((id) => this._dirtyIds.add(id));
+            } else {
+                this.markChanged(current, next.entities);
+            }
+        }
+        super.commit(next, context);
+    }
+
+    /**
+     * Отметить сущности, которые отличаются в двух коллекциях по ссылке.
+     * Идентификатор берется из сущности: ключи объекта всегда строки
+     */
+    private markChanged(prev: Record<Id, E>, next: Record<Id, E>): void {
+        const keys = new Set([...Object.keys(prev), ...Object.keys(next)]);
+        keys.forEach((key) => {
+            const before = prev[key as Id];
+            const after = next[key as Id];
+            if (before !== after) {
+                this._dirtyIds.add(this._selectId(after ?? before));
+            }
+        });
+    }
+
+    /**
+     * Записать новую коллекцию через update, отметив затронутые сущности
+     */
+    private write(touched: Id[], ids: Id[], entities: Record<Id, E>, context: UpdateContext): void {
+        const sorted = sortIds(ids, entities, this._sortComparer);
+        this._pendingWrite = { touched, entities };
+        try {
+            this.update(() => ({ ids: sorted, entities }), context);
+        } finally {
+            this._pendingWrite = null;
+        }
+    }
+
+    private indexBucket(index: string, value: unknown): Set<Id> | undefined {
+        const entry = this._indexes.get(index);
+        if (!entry) {
+            throw new Error(`Index "${index}" is not defined`);
+        }
+
+        this.syncIndexes();
+        return entry.buckets.get(value);
+    }
+
+    /**
+     * Привести индексы в соответствие с текущей коллекцией.
+     * Измененные сущности остаются отмеченными до публикации состояния,
+     * поэтому индексы восстанавливаются и после отката batch
+     */
+    private syncIndexes(): void {
+        const { ids, entities } = this.rawState;
+        if (entities === this._indexedEntities) return;
+
+        this._indexedEntities = entities;
+        this._indexCache.clear();
+        if (this._indexes.size === 0) return;
+
+        if (this._rebuildIndexes) {
+            this._indexes.forEach((index) => {
+                index.keysById.clear();
+                index.buckets.clear();
+            });
+            ids.forEach((id) => this.reindex(id, entities[id]));
+        } else {
+            this._dirtyIds.forEach((id) => this.reindex(id, entities[id]));
+        }
+    }
+
+    /**
+     * Обновить положение сущности во всех индексах
+     * @param id Идентификатор сущности
+     * @param entity Сущность или undefined, если она удалена
+     */
+    private reindex(id: Id, entity: E | undefined): void {
+        this._indexes.forEach((index) => {
+            const key = entity === undefined ? undefined : index.key(entity);
+            if (index.keysById.has(id)) {
+                const previous = index.keysById.get(id);
+                // Сущность остается на своем месте в индексе, если значение ключа не изменилось
+                if (entity !== undefined && Object.is(previous, key)) return;
+
+                const bucket = index.buckets.get(previous);
+                bucket?.delete(id);
+                if (bucket?.size === 0) {
+                    index.buckets.delete(previous);
+                }
+                index.keysById.delete(id);
+            }
+
+            if (entity === undefined) return;
+
+            let bucket = index.buckets.get(key);
+            if (!bucket) {
+                bucket = new Set();
+                index.buckets.set(key, bucket);
+            }
+            bucket.add(id);
+            index.keysById.set(id, key);
+        });
+    }
+}
@@ -0,0 +1,64 @@
+import { IStoreOptions } from '../models';
+
+/** Идентификатор сущности */
+export type EntityId = string | number;
+
+/**
+ * Нормализованное состояние коллекции: порядок идентификаторов и сущности по идентификатору
+ *
+ * @example
+ * ```typescript
+ * const state: IEntityState<Unit> = {
+ *   ids: ['u1', 'u2'],
+ *   entities: { u1: { id: 'u1', team: 'red' }, u2: { id: 'u2', team: 'blue' } }
+ * };
+ * ```
+ *
+ * @template E Тип сущности
+ * @template Id Тип идентификатора
+ */
+export interface IEntityState<E, Id extends EntityId = string> {
+    ids: Id[];
+    entities: Record<Id, E>;
+}
+
+/**
+ * Функция сравнения сущностей для сортировки коллекции
+ * @returns Отрицательное число, если a должна идти раньше b
+ */
+export type EntityComparer<E> = (a: E, b: E) => number;
+
+/**
+ * Ключ вторичного индекса: поле сущности или функция, вычисляющая значение
+ */
+export type EntityIndexKey<E> = keyof E | ((entity: E) => unknown);
+
+/**
+ * Изменения сущности: частичный объект или функция, получающая текущую сущность
+ */
+export type EntityChanges<E> = Partial<E> | ((entity: E) => Partial<E>);
+
+/**
+ * Опции хранилища сущностей
+ *
+ * @example
+ * ```typescript
+ * const options: IEntityStoreOptions<Unit> = {
+ *   selectId: unit => unit.uid,
+ *   sortComparer: (a, b) => a.name.localeCompare(b.name),
+ *   indexes: { team: 'team', alive: unit => unit.hp > 0 }
+ * };
+ * ```
+ *
+ * @template E Тип сущности
+ * @template Id Тип идентификатора
+ */
+export interface IEntityStoreOptions<E, Id extends EntityId = string>
+    extends IStoreOptions<IEntityState<E, Id>> {
+    /** Получение идентификатора сущности (по умолчанию поле id) */
+    selectId?: (entity: E) => Id;
+    /** Порядок сущностей в ids и selectAll (по умолчанию порядок добавления) */
+    sortComparer?: EntityComparer<E>;
+    /** Вторичные индексы по значениям полей */
+    indexes?: Record<string, EntityIndexKey<E>>;
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { deepEqual, shallowEqual } from './equality';
+
+describe('shallowEqual', () => {
+    it('compares objects and arrays by their first-level values', () => {
+        const list = [1];
+        expect(shallowEqual({ a: 1, b: list }, { a: 1, b: list })).toBe(true);
+        expect(shallowEqual({ a: { x: 1 } }, { a: { x: 1 } })).toBe(false);
+        expect(shallowEqual([1, 2], [1, 2])).toBe(true);
+        expect(shallowEqual<unknown>([1], { 0: 1 })).toBe(false);
+    });
+
+    it('compares dates by time', () => {
+        expect(shallowEqual(new Date(1), new Date(1))).toBe(true);
+        expect(shallowEqual(new Date(1), new Date(2))).toBe(false);
+    });
+
+    it('compares Map and Set by size and entries', () => {
+        const item = { id: 1 };
+        expect(shallowEqual(new Map([['a', item]]), new Map([['a', item]]))).toBe(true);
+        expect(shallowEqual(new Map([['a', 1]]), new Map([['a', 2]]))).toBe(false);
+        expect(shallowEqual(new Map([['a', 1]]), new Map([['b', 1]]))).toBe(false);
+        expect(shallowEqual(new Map(), new Map([['a', 1]]))).toBe(false);
+        expect(shallowEqual(new Set([1, 2]), new Set([2, 1]))).toBe(true);
+        expect(shallowEqual(new Set([1]), new Set([2]))).toBe(false);
+        expect(shallowEqual<unknown>(new Map(), new Set())).toBe(false);
+    });
+});
+
+describe('deepEqual', () => {
+    it('compares nested structures', () => {
+        expect(deepEqual({ a: { x: [1, 2] } }, { a: { x: [1, 2] } })).toBe(true);
+        expect(deepEqual({ a: { x: [1, 2] } }, { a: { x: [1, 3] } })).toBe(false);
+    });
+
+    it('compares nested dates, Map values and Set items', () => {
+        expect(deepEqual({ at: new Date(5) }, { at: new Date(5) })).toBe(true);
+        expect(deepEqual({ at: new Date(5) }, { at: new Date(6) })).toBe(false);
+        expect(deepEqual(new Map([['a', { x: 1 }]]), new Map([['a', { x: 1 }]]))).toBe(true);
+        expect(deepEqual(new Map([['a', { x: 1 }]]), new Map([['a', { x: 2 }]]))).toBe(false);
+        expect(deepEqual({ tags: new Set(['a']) }, { tags: new Set(['b']) })).toBe(false);
+    });
+});
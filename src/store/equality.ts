@@ -0,0 +1,81 @@
+/**
+ * Поверхностное сравнение: примитивы сравниваются через Object.is,
+ * объекты и массивы - по ключам первого уровня, Date - по времени,
+ * Map и Set - по размеру и элементам.
+ *
+ * @example
+ * ```typescript
+ * shallowEqual({ a: 1, b: list }, { a: 1, b: list }); // true
+ * shallowEqual({ a: { x: 1 } }, { a: { x: 1 } });     // false
+ * shallowEqual(new Set([1]), new Set([1]));          // true
+ * ```
+ */
+export function shallowEqual<T>(a: T, b: T): boolean {
+    return compare(a, b, Object.is);
+}
+
+/**
+ * Глубокое структурное сравнение массивов, простых объектов, дат, Map и Set.
+ * Ключи Map и элементы Set сравниваются по ссылке, значения Map - глубоко.
+ *
+ * @example
+ * ```typescript
+ * deepEqual({ a: { x: [1, 2] } }, { a: { x: [1, 2] } }); // true
+ * deepEqual(new Map([['a', { x: 1 }]]), new Map([['a', { x: 1 }]])); // true
+ * ```
+ */
+export function deepEqual<T>(a: T, b: T): boolean {
+    return compare(a, b, deepEqual);
+}
+
+/**
+ * Сравнить два значения, сравнивая вложенные значения функцией equals
+ * @param a Первое значение
+ * @param b Второе значение
+ * @param equals Сравнение полей объектов, элементов массивов и значений Map
+ */
+function compare(a: unknown, b: unknown, equals: (a: unknown, b: unknown) => boolean): boolean {
+    if (Object.is(a, b)) return true;
+    if (!isObject(a) || !isObject(b)) return false;
+    if (Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)) return false;
+
+    if (a instanceof Date) {
+        return a.getTime() === (b as Date).getTime();
+    }
+
+    if (a instanceof Map) {
+        const other = b as Map<unknown, unknown>;
+        if (a.size !== other.size) return false;
+        for (const [key, value] of a) {
+            if (!other.has(key) || !equals(value, other.get(key))) return false;
+        }
+        return true;
+    }
+
+    if (a instanceof Set) {
+        const other = b as Set<unknown>;
+        if (a.size !== other.size) return false;
+        for (const item of a) {
+            if (!other.has(item)) return false;
+        }
+        return true;
+    }
+
+    if (Array.isArray(a)) {
+        const other = b as unknown[];
+        return a.length === other.length && a.every((item, index) => equals(item, other[index]));
+    }
+
+    const keysA = Object.keys(a);
+    if (keysA.length !== Object.keys(b).length) return false;
+
+    return keysA.every(
+        (key) =>
+            Object.prototype.hasOwnProperty.call(b, key) &&
+            equals((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]),
+    );
+}
+
+function isObject(value: unknown): value is object {
+    return typeof value === 'object' && value !== null;
+}
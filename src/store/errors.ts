@@ -0,0 +1,63 @@
+import { ValidationIssue } from './models';
+
+/**
+ * Ошибка валидации обновления хранилища.
+ * Содержит все найденные нарушения, а не только первое.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   store.update(() => ({ name: '', age: -1 }));
+ * } catch (error) {
+ *   if (error instanceof StoreValidationError) {
+ *     error.issues.forEach(issue => form.showError(issue.field, issue.message));
+ *   }
+ * }
+ * ```
+ */
+export class StoreValidationError extends Error {
+    public readonly issues: ValidationIssue[];
+
+    constructor(issues: ValidationIssue[]) {
+        super(issues.map((issue) => issue.message).join('; ') || 'Validation failed');
+        this.name = 'StoreValidationError';
+        this.issues = issues;
+    }
+
+    /**
+     * Список полей, не прошедших проверку
+     */
+    public get fields(): string[] {
+        return [...new Set(this.issues.flatMap((issue) => (issue.field ? [issue.field] : [])))];
+    }
+
+    /**
+     * Получить ошибки для конкретного поля
+     * @param field Название поля
+     */
+    public issuesFor(field: string): ValidationIssue[] {
+        return this.issues.filter((issue) => issue.field === field);
+    }
+}
+
+/**
+ * Ошибка прямого изменения состояния хранилища в режиме 'development'.
+ * Стек ошибки указывает на место изменения.
+ *
+ * @example
+ * ```typescript
+ * Store.configure({ mode: 'development' });
+ *
+ * store.state.player.hp = 0;
+ * // StateMutationError: Cannot mutate store state at "player.hp". Use update instead.
+ * ```
+ */
+export class StateMutationError extends Error {
+    public readonly path: PropertyKey[];
+
+    constructor(path: PropertyKey[]) {
+        super(`Cannot mutate store state at "${path.map(String).join('.')}". Use update instead.`);
+        this.name = 'StateMutationError';
+        this.path = path;
+    }
+}
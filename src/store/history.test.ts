@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest';
+import { Store } from './store';
+import { createHistory } from './history';
+import { mixStores } from './store-mixer';
+
+interface IGameState {
+    score: number;
+    level: number;
+}
+
+const createStore = () => new Store<IGameState>({ score: 0, level: 1 });
+
+describe('createHistory', () => {
+    it('undoes and redoes updates', () => {
+        const store = createStore();
+        const history = createHistory(store);
+
+        store.update(() => ({ score: 10 }));
+        store.update(() => ({ level: 2 }));
+
+        expect(history.undo()).toBe(true);
+        expect(store.state).toEqual({ score: 10, level: 1 });
+        expect(history.undo()).toBe(true);
+        expect(store.state).toEqual({ score: 0, level: 1 });
+        expect(history.undo()).toBe(false);
+
+        expect(history.redo()).toBe(true);
+        expect(store.state).toEqual({ score: 10, level: 1 });
+        expect(history.canRedo).toBe(true);
+    });
+
+    it('drops the redo stack after a new update', () => {
+        const store = createStore();
+        const history = createHistory(store);
+
+        store.update(() => ({ score: 1 }));
+        history.undo();
+        store.update(() => ({ score: 2 }));
+
+        expect(history.canRedo).toBe(false);
+        expect(history.redo()).toBe(false);
+    });
+
+    it('keeps at most limit undo steps', () => {
+        const store = createStore();
+        const history = createHistory(store, { limit: 2 });
+
+        [1, 2, 3].forEach((score) => store.update(() => ({ score })));
+
+        expect(history.undo()).toBe(true);
+        expect(history.undo()).toBe(true);
+        expect(history.undo()).toBe(false);
+        expect(store.state.score).toBe(1);
+    });
+
+    it('keeps the limit across repeated undo and redo', () => {
+        const store = createStore();
+        const history = createHistory(store, { limit: 2 });
+
+        [1, 2, 3].forEach((score) => store.update(() => ({ score })));
+        for (let cycle = 0; cycle < 3; cycle++) {
+            history.undo();
+            history.undo();
+            history.redo();
+            history.redo();
+        }
+
+        expect(store.state.score).toBe(3);
+        expect(history.undo()).toBe(true);
+        expect(history.undo()).toBe(true);
+        expect(history.undo()).toBe(false);
+        expect(store.state.score).toBe(1);
+    });
+
+    it('groups several updates into one step', () => {
+        const store = createStore();
+        const history = createHistory(store);
+
+        history.group(() => {
+            store.update(() => ({ score: 5 }));
+            history.group(() => store.update(() => ({ level: 3 })));
+        });
+        history.undo();
+
+        expect(store.state).toEqual({ score: 0, level: 1 });
+        expect(history.canUndo).toBe(false);
+    });
+
+    it('restores named checkpoints as a new step', () => {
+        const store = createStore();
+        const history = createHistory(store);
+
+        store.update(() => ({ score: 7 }));
+        history.checkpoint('turn-start');
+        store.update(() => ({ score: 0, level: 4 }));
+
+        history.restore('turn-start');
+        expect(store.state).toEqual({ score: 7, level: 1 });
+        expect(history.hasCheckpoint('turn-start')).toBe(true);
+
+        history.undo();
+        expect(store.state).toEqual({ score: 0, level: 4 });
+
+        history.removeCheckpoint('turn-start');
+        expect(() => history.restore('turn-start')).toThrow(
+            'History checkpoint "turn-start" not found',
+        );
+    });
+
+    it('tracks changes made by reset and transactions', () => {
+        const store = createStore();
+        const history = createHistory(store);
+
+        store.reset({ score: 3, level: 3 });
+        store.transaction({ apply: (state) => ({ ...state, score: 4 }) });
+        history.undo();
+        history.undo();
+
+        expect(store.state).toEqual({ score: 0, level: 1 });
+    });
+
+    it('works with mixed stores', () => {
+        const game = createStore();
+        const ui = new Store({ open: false });
+        const mixed = mixStores([game, ui]);
+        const history = createHistory(mixed);
+
+        mixed.update(() => ({ score: 9, open: true }));
+        history.undo();
+
+        expect(game.state.score).toBe(0);
+        expect(ui.state.open).toBe(false);
+    });
+
+    it('clears steps and refuses to work after dispose', () => {
+        const store = createStore();
+        const history = createHistory(store);
+
+        store.update(() => ({ score: 1 }));
+        history.clear();
+        expect(history.canUndo).toBe(false);
+
+        history.dispose();
+        store.update(() => ({ score: 2 }));
+        expect(history.canUndo).toBe(false);
+        expect(() => history.undo()).toThrow('Cannot use disposed history');
+    });
+});
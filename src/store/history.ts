@@ -0,0 +1,189 @@
+import { Store } from './store';
+
+export interface HistoryRef {
+    readonly canUndo: boolean;
+    readonly canRedo: boolean;
+    undo: () => boolean;
+    redo: () => boolean;
+    group: (fn: () => void) => void;
+    checkpoint: (name: string) => void;
+    restore: (name: string) => void;
+    hasCheckpoint: (name: string) => boolean;
+    removeCheckpoint: (name: string) => void;
+    clear: () => void;
+    dispose: () => void;
+}
+
+export interface IHistoryOptions {
+    /** Максимальное количество шагов отмены (по умолчанию 100) */
+    limit?: number;
+}
+
+const DEFAULT_HISTORY_LIMIT = 100;
+
+/**
+ * Создает историю изменений хранилища с поддержкой отмены и повтора.
+ *
+ * Возможности:
+ * - undo/redo с ограниченной глубиной истории
+ * - Группировка нескольких обновлений в один шаг истории
+ * - Именованные контрольные точки, к которым можно вернуться
+ * - Работает с любым хранилищем, включая результат mixStores
+ *
+ * Отмена и повтор применяются через store.reset, поэтому подписчики
+ * и computed свойства получают обычное уведомление.
+ *
+ * @example
+ * ```typescript
+ * const store = new Store<GameState>({ score: 0, level: 1 });
+ * const history = createHistory(store, { limit: 50 });
+ *
+ * store.update(state => ({ score: state.score + 10 }));
+ *
+ * // Несколько обновлений как один шаг истории
+ * history.group(() => {
+ *   store.update(state => ({ score: state.score + 5 }));
+ *   store.update(state => ({ level: state.level + 1 }));
+ * });
+ *
+ * history.undo(); // { score: 10, level: 1 }
+ * history.redo(); // { score: 15, level: 2 }
+ *
+ * // Контрольные точки
+ * history.checkpoint('turn-start');
+ * store.update(state => ({ score: 0 }));
+ * history.restore('turn-start');
+ * ```
+ *
+ * @param store - Хранилище, изменения которого нужно отслеживать
+ * @param options - Опции истории
+ * @returns Объект HistoryRef для управления историей
+ */
+export function createHistory<T extends object>(
+    store: Store<T>,
+    options: IHistoryOptions = {},
+): HistoryRef {
+    const limit = Math.max(1, options.limit ?? DEFAULT_HISTORY_LIMIT);
+    const past: T[] = [];
+    let future: T[] = [];
+    const checkpoints = new Map<string, T>();
+
+    let present: T = store.cloneState();
+    let applying = false;
+    let groupDepth = 0;
+    let groupRecorded = false;
+    let disposed = false;
+
+    /** Добавить шаг отмены, удаляя самые старые шаги сверх limit */
+    const pushPast = (previous: T) => {
+        past.push(previous);
+        if (past.length > limit) {
+            past.splice(0, past.length - limit);
+        }
+    };
+
+    const record = (previous: T) => {
+        if (groupDepth > 0) {
+            if (groupRecorded) return;
+            groupRecorded = true;
+        }
+
+        pushPast(previous);
+        future = [];
+    };
+
+    const unsubscribe = store.onCommit((state, prev) => {
+        if (!applying) {
+            record(prev);
+        }
+        present = state;
+    });
+
+    const apply = (target: T) => {
+        applying = true;
+        try {
+            store.reset(target);
+        } finally {
+            applying = false;
+        }
+    };
+
+    const assertActive = () => {
+        if (disposed) {
+            throw new Error('Cannot use disposed history');
+        }
+    };
+
+    return {
+        get canUndo() {
+            return past.length > 0;
+        },
+        get canRedo() {
+            return future.length > 0;
+        },
+        undo() {
+            assertActive();
+            const target = past.pop();
+            if (target === undefined) return false;
+
+            future.push(present);
+            apply(target);
+            return true;
+        },
+        redo() {
+            assertActive();
+            const target = future.pop();
+            if (target === undefined) return false;
+
+            pushPast(present);
+            apply(target);
+            return true;
+        },
+        group(fn) {
+            assertActive();
+            if (groupDepth === 0) {
+                groupRecorded = false;
+            }
+
+            groupDepth++;
+            try {
+                fn();
+            } finally {
+                groupDepth--;
+            }
+        },
+        checkpoint(name) {
+            assertActive();
+            checkpoints.set(name, present);
+        },
+        restore(name) {
+            assertActive();
+            const target = checkpoints.get(name);
+            if (target === undefined) {
+                throw new Error(`History checkpoint "${name}" not found`);
+            }
+
+            store.reset(target);
+        },
+        hasCheckpoint(name) {
+            return checkpoints.has(name);
+        },
+        removeCheckpoint(name) {
+            checkpoints.delete(name);
+        },
+        clear() {
+            past.length = 0;
+            future = [];
+            checkpoints.clear();
+        },
+        dispose() {
+            if (!disposed) {
+                disposed = true;
+                unsubscribe();
+                past.length = 0;
+                future = [];
+                checkpoints.clear();
+            }
+        },
+    };
+}
@@ -1,4 +1,22 @@
 export * from './store';
 export * from './computed';
+export * from './async-computed';
+export * from './effect';
 export * from './store-mixer';
-export * from './models';
\ No newline at end of file
+export * from './store-link';
+export * from './equality';
+export * from './errors';
+export * from './validators';
+export * from './middlewares';
+export * from './patches';
+export * from './devtools';
+export * from './history';
+export * from './registry';
+export * from './serialization';
+export * from './scheduling';
+export * from './entities';
+export * from './actions';
+export * from './persistence';
+export * from './sync';
+export * from './network';
+export * from './models';
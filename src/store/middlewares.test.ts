@@ -0,0 +1,190 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Store } from './store';
+import { AsyncMiddleware, Middleware } from './models';
+import {
+    debounceMiddleware,
+    freezeMiddleware,
+    IUpdateTrace,
+    loggerMiddleware,
+    throttleMiddleware,
+    traceMiddleware,
+    whitelistMiddleware,
+} from './middlewares';
+
+interface ISettingsState {
+    volume: number;
+    language: string;
+    query: string;
+    audio: { muted: boolean };
+}
+
+const createSettings = (options: ConstructorParameters<typeof Store<ISettingsState>>[1] = {}) =>
+    new Store<ISettingsState>(
+        { volume: 50, language: 'en', query: '', audio: { muted: false } },
+        options,
+    );
+
+afterEach(() => {
+    vi.useRealTimers();
+});
+
+describe('middleware chain', () => {
+    it('runs middleware as an onion around the merge', () => {
+        const calls: string[] = [];
+        const layer =
+            (name: string): Middleware<ISettingsState> =>
+            (state, update, next) => {
+                calls.push(`${name}:before`);
+                const result = next(state, update);
+                calls.push(`${name}:after`);
+                return result;
+            };
+        const store = createSettings({ middleware: [layer('outer'), layer('inner')] });
+
+        store.update(() => ({ volume: 10 }));
+
+        expect(calls).toEqual(['outer:before', 'inner:before', 'inner:after', 'outer:after']);
+    });
+
+    it('lets middleware change the update and short-circuit the rest of the chain', () => {
+        const downstream = vi.fn((state, update, next) => next(state, update));
+        const store = createSettings({
+            middleware: [
+                (state, update, next) =>
+                    update.volume !== undefined && update.volume > 100
+                        ? state
+                        : next(state, { ...update, language: 'ru' }),
+                downstream,
+            ],
+        });
+
+        store.update(() => ({ volume: 200 }));
+        expect(store.state.volume).toBe(50);
+        expect(downstream).not.toHaveBeenCalled();
+
+        store.update(() => ({ volume: 70 }));
+        expect(store.state).toMatchObject({ volume: 70, language: 'ru' });
+    });
+
+    it('stops applying removed middleware', () => {
+        const store = createSettings();
+        const remove = store.addMiddleware((state, update, next) =>
+            next(state, { ...update, query: 'forced' }),
+        );
+
+        store.update(() => ({ volume: 1 }));
+        remove();
+        store.update(() => ({ query: 'free' }));
+
+        expect(store.state.query).toBe('free');
+    });
+
+    it('awaits async middleware before the sync chain in updateAsync', async () => {
+        const calls: string[] = [];
+        const remote: AsyncMiddleware<ISettingsState> = async (state, update, next) => {
+            calls.push('async');
+            await Promise.resolve();
+            return next(state, { ...update, language: 'de' });
+        };
+        const store = createSettings({
+            middleware: [
+                (state, update, next) => {
+                    calls.push('sync');
+                    return next(state, update);
+                },
+            ],
+        });
+        store.addAsyncMiddleware(remote);
+
+        store.update(() => ({ volume: 1 }));
+        await store.updateAsync(() => ({ volume: 2 }));
+
+        expect(calls).toEqual(['sync', 'async', 'sync']);
+        expect(store.state).toMatchObject({ volume: 2, language: 'de' });
+    });
+
+    it('rejects updateAsync when async middleware throws', async () => {
+        const store = createSettings();
+        store.addAsyncMiddleware(async () => {
+            throw new Error('Server rejected');
+        });
+
+        await expect(store.updateAsync(() => ({ volume: 5 }))).rejects.toThrow('Server rejected');
+        expect(store.state.volume).toBe(50);
+    });
+});
+
+describe('built-in middlewares', () => {
+    it('loggerMiddleware logs the action, states and update in a group', () => {
+        const logger = { log: vi.fn(), groupCollapsed: vi.fn(), groupEnd: vi.fn() };
+        const store = createSettings({ middleware: [loggerMiddleware({ label: 'ui', logger })] });
+
+        store.update(() => ({ volume: 20 }), { label: 'slider' });
+
+        expect(logger.groupCollapsed).toHaveBeenCalledWith('[ui] slider');
+        expect(logger.log).toHaveBeenCalledWith('Обновление:', { volume: 20 });
+        expect(logger.groupEnd).toHaveBeenCalledOnce();
+    });
+
+    it('freezeMiddleware deeply freezes the committed state', () => {
+        const store = createSettings({ middleware: [freezeMiddleware()] });
+
+        store.update(() => ({ audio: { muted: true } }));
+
+        expect(Object.isFrozen(store.rawState)).toBe(true);
+        expect(Object.isFrozen(store.rawState.audio)).toBe(true);
+    });
+
+    it('throttleMiddleware drops updates within the interval', () => {
+        vi.useFakeTimers();
+        const store = createSettings({ middleware: [throttleMiddleware(100)] });
+
+        store.update(() => ({ volume: 1 }));
+        store.update(() => ({ volume: 2 }));
+        expect(store.state.volume).toBe(1);
+
+        vi.advanceTimersByTime(100);
+        store.update(() => ({ volume: 3 }));
+        expect(store.state.volume).toBe(3);
+    });
+
+    it('debounceMiddleware applies the merged updates after a pause', async () => {
+        vi.useFakeTimers();
+        const store = createSettings();
+        store.addAsyncMiddleware(debounceMiddleware(300));
+
+        const first = store.updateAsync(() => ({ query: 'a', volume: 10 }));
+        const second = store.updateAsync(() => ({ query: 'ab' }));
+        await vi.advanceTimersByTimeAsync(300);
+        await Promise.all([first, second]);
+
+        expect(store.state).toMatchObject({ query: 'ab', volume: 10 });
+    });
+
+    it('whitelistMiddleware keeps only allowed keys', () => {
+        const store = createSettings({ middleware: [whitelistMiddleware(['volume'])] });
+
+        store.update(() => ({ volume: 5, language: 'fr' }));
+
+        expect(store.state).toMatchObject({ volume: 5, language: 'en' });
+    });
+
+    it('traceMiddleware reports changed keys and the action', () => {
+        const traces: Array<IUpdateTrace<ISettingsState>> = [];
+        const store = createSettings({
+            middleware: [traceMiddleware((trace) => traces.push(trace))],
+        });
+
+        store.update(() => ({ volume: 50, language: 'ru' }), {
+            action: { type: 'setLanguage', payload: 'ru' },
+        });
+
+        expect(traces).toHaveLength(1);
+        expect(traces[0]).toMatchObject({
+            update: { volume: 50, language: 'ru' },
+            changedKeys: ['language'],
+            action: { type: 'setLanguage', payload: 'ru' },
+        });
+        expect(traces[0].duration).toBeGreaterThanOrEqual(0);
+    });
+});
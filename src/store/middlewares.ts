@@ -0,0 +1,189 @@
+import { ActionInfo, AsyncMiddleware, Middleware } from './models';
+import { deepFreeze } from './utils';
+
+export interface ILoggerMiddlewareOptions {
+    /** Метка, с которой выводятся сообщения */
+    label?: string;
+    /** Объект для вывода сообщений (по умолчанию console) */
+    logger?: Pick<Console, 'log' | 'groupCollapsed' | 'groupEnd'>;
+}
+
+/**
+ * Запись о выполнении одного обновления
+ *
+ * @template T Тип состояния
+ */
+export interface IUpdateTrace<T> {
+    update: Partial<T>;
+    prevState: T;
+    nextState: T;
+    /** Поля, значения которых изменились */
+    changedKeys: Array<keyof T>;
+    /** Время выполнения оставшейся части цепочки в миллисекундах */
+    duration: number;
+    timestamp: number;
+    /** Действие, вызвавшее обновление (см. defineActions) */
+    action?: ActionInfo;
+}
+
+/**
+ * Создает middleware, выводящее обновление, предыдущее и следующее состояние
+ *
+ * @example
+ * ```typescript
+ * store.addMiddleware(loggerMiddleware({ label: 'game' }));
+ * ```
+ *
+ * @param options - Метка и объект для вывода сообщений
+ */
+export function loggerMiddleware<T>(options: ILoggerMiddlewareOptions = {}): Middleware<T> {
+    const { label = 'store', logger = console } = options;
+
+    return (state, update, next, context) => {
+        const nextState = next(state, update);
+
+        logger.groupCollapsed(`[${label}] ${context.action?.type ?? context.label ?? 'update'}`);
+        if (context.action) {
+            logger.log('Данные действия:', context.action.payload);
+        }
+        logger.log('Предыдущее состояние:', state);
+        logger.log('Обновление:', update);
+        logger.log('Следующее состояние:', nextState);
+        logger.groupEnd();
+
+        return nextState;
+    };
+}
+
+/**
+ * Создает middleware, глубоко замораживающее итоговое состояние.
+ * Помогает находить прямые мутации состояния во время разработки.
+ *
+ * @example
+ * ```typescript
+ * const store = new Store<GameState>(initial, {
+ *   middleware: [freezeMiddleware()]
+ * });
+ * ```
+ */
+export function freezeMiddleware<T>(): Middleware<T> {
+    return (state, update, next) => deepFreeze(next(state, update));
+}
+
+/**
+ * Создает middleware, пропускающее не больше одного обновления за интервал.
+ * Обновления, пришедшие раньше окончания интервала, отбрасываются.
+ *
+ * @example
+ * ```typescript
+ * store.addMiddleware(throttleMiddleware(16));
+ * ```
+ *
+ * @param interval - Минимальный интервал между обновлениями в миллисекундах
+ */
+export function throttleMiddleware<T>(interval: number): Middleware<T> {
+    let lastApplied = -Infinity;
+
+    return (state, update, next) => {
+        const now = Date.now();
+        if (now - lastApplied < interval) {
+            return state;
+        }
+
+        lastApplied = now;
+        return next(state, update);
+    };
+}
+
+/**
+ * Создает асинхронное middleware, откладывающее обновление до паузы указанной длины.
+ * Обновления, пришедшие во время ожидания, объединяются, и применяется только
+ * последний вызов. Работает с updateAsync.
+ *
+ * @example
+ * ```typescript
+ * store.addAsyncMiddleware(debounceMiddleware(300));
+ *
+ * store.updateAsync(() => ({ query: 'a' }));
+ * store.updateAsync(() => ({ query: 'ab' })); // применится только { query: 'ab' }
+ * ```
+ *
+ * @param delay - Длительность паузы в миллисекундах
+ */
+export function debounceMiddleware<T>(delay: number): AsyncMiddleware<T> {
+    let pending: Partial<T> = {};
+    let version = 0;
+
+    return async (state, update, next) => {
+        const current = ++version;
+        pending = { ...pending, ...update };
+
+        await new Promise((resolve) => setTimeout(resolve, delay));
+        if (current !== version) {
+            return state;
+        }
+
+        const merged = pending;
+        pending = {};
+        return next(state, merged);
+    };
+}
+
+/**
+ * Создает middleware, пропускающее в обновлении только разрешенные поля
+ *
+ * @example
+ * ```typescript
+ * // Из UI можно менять только настройки
+ * uiStore.addMiddleware(whitelistMiddleware(['volume', 'language']));
+ * ```
+ *
+ * @param keys - Разрешенные поля
+ */
+export function whitelistMiddleware<T>(keys: Array<keyof T>): Middleware<T> {
+    return (state, update, next) => {
+        const allowed = {} as Partial<T>;
+        for (const key of keys) {
+            if (key in update) {
+                allowed[key] = update[key];
+            }
+        }
+        return next(state, allowed);
+    };
+}
+
+/**
+ * Создает middleware, сообщающее о каждом выполненном обновлении:
+ * какие поля изменились и сколько заняла оставшаяся часть цепочки
+ *
+ * @example
+ * ```typescript
+ * store.addMiddleware(traceMiddleware(trace => {
+ *   if (trace.duration > 2) profiler.report(trace);
+ * }));
+ * ```
+ *
+ * @param onTrace - Функция, получающая запись о каждом обновлении
+ */
+export function traceMiddleware<T>(onTrace: (trace: IUpdateTrace<T>) => void): Middleware<T> {
+    return (state, update, next, context) => {
+        const start = performance.now();
+        const nextState = next(state, update);
+        const duration = performance.now() - start;
+
+        const changedKeys = (Object.keys(nextState as object) as Array<keyof T>).filter(
+            (key) => !Object.is(nextState[key], state[key]),
+        );
+        onTrace({
+            update,
+            prevState: state,
+            nextState,
+            changedKeys,
+            duration,
+            timestamp: Date.now(),
+            action: context.action,
+        });
+
+        return nextState;
+    };
+}
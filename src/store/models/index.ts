@@ -1,2 +1,2 @@
 export * from './types';
-export * from './interfaces';
\ No newline at end of file
+export * from './interfaces';
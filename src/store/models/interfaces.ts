@@ -1,46 +1,219 @@
-import { Store } from "../store";
-import { StoreState, Middleware, Validator } from "./types";
+import { Store } from '../store';
+import type { StoreRegistry } from '../registry';
+import type { Serializer } from '../serialization';
+import type { NotificationScheduler, SchedulerPriority } from '../scheduling';
+import {
+    StoreState,
+    Middleware,
+    AsyncMiddleware,
+    Validator,
+    EqualityFn,
+    StateValidator,
+    EffectScheduler,
+    MixConflictStrategy,
+    ValidatorResult,
+    StoreMode,
+} from './types';
 
 /**
  * Интерфейс транзакции для атомарных операций с возможностью отката
- * 
+ *
  * @example
  * ```typescript
  * const transaction: ITransaction<GameState> = {
- *   apply: (state) => ({ ...state, score: state.score + 10 }),
- *   rollback: (state) => ({ ...state, score: state.score - 10 })
+ *   apply: (state) => ({ ...state, score: state.score + 10 })
  * };
  * ```
- * 
+ *
  * @template T Тип состояния
  */
 export interface ITransaction<T> {
     apply: (state: T) => T;
-    rollback: (state: T) => T;
+    /**
+     * Вызывается с состоянием на начало транзакции, если apply или валидация завершились ошибкой.
+     * Состояние к этому моменту уже восстановлено, поэтому rollback нужен
+     * только для дополнительных изменений, например записи о неудаче
+     */
+    rollback?: (state: T) => T;
 }
 
+/**
+ * Валидатор итогового состояния. Создается через stateValidator()
+ * и передается туда же, где и обычные валидаторы.
+ *
+ * @example
+ * ```typescript
+ * const goldValidator: IStateValidator<GameState> = stateValidator(
+ *   (next, prev) => next.gold >= 0 || 'Недостаточно золота'
+ * );
+ * ```
+ *
+ * @template T Тип состояния
+ */
+export interface IStateValidator<T> {
+    kind: 'state';
+    validate: StateValidator<T>;
+}
+
+/** Любой валидатор хранилища: частичного обновления или итогового состояния */
+export type StoreValidator<T> = Validator<T> | IStateValidator<T>;
+
 /**
  * Опции при создании хранилища
- * 
+ *
  * @example
  * ```typescript
  * const options: IStoreOptions<GameState> = {
  *   middleware: [loggerMiddleware],
- *   validators: [playerCountValidator]
+ *   validators: [playerCountValidator, stateValidator(levelStepValidator)]
  * };
  * ```
- * 
+ *
  * @template T Тип состояния хранилища
  */
 export interface IStoreOptions<T> {
     middleware?: Middleware<T>[];
-    validators?: Validator<T>[];
+    asyncMiddleware?: AsyncMiddleware<T>[];
+    validators?: StoreValidator<T>[];
+    /** Сериализатор для копирования состояния, toJSON и fromJSON (по умолчанию defaultSerializer) */
+    serializer?: Serializer;
+    /** Способ доступа к состоянию (по умолчанию из Store.configure, изначально 'readonly') */
+    mode?: StoreMode;
+    /** Способ уведомления подписчиков (по умолчанию из Store.configure, изначально 'microtask') */
+    scheduler?: NotificationScheduler;
+}
+
+/**
+ * Общие настройки всех хранилищ
+ *
+ * @example
+ * ```typescript
+ * Store.configure({ mode: import.meta.env.PROD ? 'production' : 'development' });
+ * ```
+ */
+export interface IStoreConfig {
+    /** Способ доступа к состоянию для хранилищ без своей опции mode */
+    mode?: StoreMode;
+    /** Способ уведомления подписчиков для хранилищ без своей опции scheduler */
+    scheduler?: NotificationScheduler;
+}
+
+/**
+ * Опции подписчика хранилища
+ *
+ * @example
+ * ```typescript
+ * store.subscribe(state => renderer.draw(state), { priority: 'post-render' });
+ * ```
+ */
+export interface IListenerOptions {
+    /**
+     * Фаза или числовой приоритет вызова при уведомлении (по умолчанию 'default').
+     * Подписчики с меньшим приоритетом вызываются раньше, в том числе подписчики других хранилищ
+     */
+    priority?: SchedulerPriority;
+}
+
+/**
+ * Опции подписки на часть состояния через селектор
+ *
+ * @example
+ * ```typescript
+ * const options: ISubscribeOptions<Player> = { equals: deepEqual };
+ * ```
+ *
+ * @template S Тип выбранной части состояния
+ */
+export interface ISubscribeOptions<S> extends IListenerOptions {
+    /** Функция сравнения выбранных значений (по умолчанию shallowEqual) */
+    equals?: EqualityFn<S>;
+}
+
+/**
+ * Опции автоматической регистрации в реестре хранилищ
+ *
+ * @example
+ * ```typescript
+ * const totalScore = computed(store, state => state.score, { name: 'totalScore' });
+ * const appStore = mixStores([gameStore, uiStore], { name: 'app', registry: editorRegistry });
+ * ```
+ */
+export interface IRegistryOptions {
+    /** Имя, под которым результат регистрируется в реестре */
+    name?: string;
+    /** Реестр для регистрации (по умолчанию общий storeRegistry) */
+    registry?: StoreRegistry;
+}
+
+/**
+ * Опции вычисляемого свойства
+ *
+ * @example
+ * ```typescript
+ * const options: IComputedOptions<Point> = { equals: shallowEqual };
+ * ```
+ *
+ * @template R Тип вычисляемого значения
+ */
+export interface IComputedOptions<R> extends IRegistryOptions {
+    /**
+     * Функция сравнения результатов (по умолчанию Object.is).
+     * Если новый результат равен предыдущему, зависимые computed не пересчитываются.
+     */
+    equals?: EqualityFn<R>;
+}
+
+/**
+ * Опции эффекта
+ *
+ * @example
+ * ```typescript
+ * const options: IEffectOptions = { scheduler: job => requestAnimationFrame(job) };
+ * ```
+ */
+export interface IEffectOptions {
+    /** Способ запуска эффекта после изменения зависимостей (по умолчанию 'microtask') */
+    scheduler?: EffectScheduler;
+}
+
+/**
+ * Опции наблюдения за значением через watch
+ *
+ * @example
+ * ```typescript
+ * const options: IWatchOptions<Player> = { immediate: true, equals: deepEqual };
+ * ```
+ *
+ * @template V Тип наблюдаемого значения
+ */
+export interface IWatchOptions<V> extends IEffectOptions {
+    /** Вызвать обработчик сразу с текущим значением */
+    immediate?: boolean;
+    /** Функция сравнения значений (по умолчанию shallowEqual) */
+    equals?: EqualityFn<V>;
+}
+
+/**
+ * Опции асинхронного вычисляемого свойства
+ *
+ * @example
+ * ```typescript
+ * const options: IAsyncComputedOptions<Path> = { keepPrevious: true };
+ * ```
+ *
+ * @template R Тип вычисляемого значения
+ */
+export interface IAsyncComputedOptions<R> extends IEffectOptions {
+    /** Значение до завершения первого вычисления */
+    initial?: R;
+    /** Сохранять последнее значение во время повторной загрузки и после ошибки */
+    keepPrevious?: boolean;
 }
 
 /**
  * Интерфейс для связи между хранилищами
  * Определяет как состояния преобразуются между хранилищами
- * 
+ *
  * @template T Тип целевого хранилища
  * @template K Тип исходного хранилища
  */
@@ -53,17 +226,41 @@ export interface IStoreLink<T extends StoreState, K extends StoreState> {
 /**
  * Расширенные опции для объединенного хранилища
  * Дополняет базовые опции возможностью указания связей между хранилищами
- * 
+ *
+ * @template T Тип объединенного состояния
+ */
+export interface IMixedStoreOptions<T extends StoreState>
+    extends IStoreOptions<T>,
+        IRegistryOptions {
+    links?: Array<IStoreLink<any, T>>;
+    /** Разрешение ключей, которые есть в нескольких хранилищах (по умолчанию 'error') */
+    conflicts?: MixConflictStrategy;
+}
+
+/**
+ * Объединенное хранилище, созданное mixStores
+ *
  * @template T Тип объединенного состояния
  */
-export interface IMixedStoreOptions<T extends StoreState> extends IStoreOptions<T> {
-    links?: Array<IStoreLink<StoreState, T>>;
+export interface IMixedStore<T extends StoreState> extends Store<T> {
+    /** Отключить синхронизацию с исходными хранилищами */
+    cleanup(): void;
+}
+
+/**
+ * Срез хранилища, созданный store.slice
+ *
+ * @template S Тип состояния среза
+ */
+export interface ISliceStore<S extends object> extends Store<S> {
+    /** Отключить срез от родительского хранилища */
+    cleanup(): void;
 }
 
 /**
  * Конфигурация связи между двумя хранилищами
  * Определяет как данные передаются между хранилищами
- * 
+ *
  * @example
  * ```typescript
  * const config: IStoreLinkConfig<UIState, GameState> = {
@@ -78,7 +275,7 @@ export interface IMixedStoreOptions<T extends StoreState> extends IStoreOptions<
  *   })
  * };
  * ```
- * 
+ *
  * @template T Тип целевого хранилища
  * @template K Тип исходного хранилища
  */
@@ -87,4 +284,9 @@ export interface IStoreLinkConfig<T extends StoreState, K extends StoreState> {
     sourceStore: Store<K>;
     mapFromSource: (state: K) => Partial<T>;
     mapToSource: (state: T) => Partial<K>;
-}
\ No newline at end of file
+    /**
+     * Проверка согласованности связанных состояний. Вызывается перед изменением
+     * любого из хранилищ с будущими состояниями обоих.
+     */
+    validate?: (targetState: T, sourceState: K) => ValidatorResult;
+}
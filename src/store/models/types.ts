@@ -1,19 +1,150 @@
+import type { NotificationScheduler } from '../scheduling';
+
 /** Базовый тип для всех состояний хранилища */
 export type StoreState = Record<string, any>;
 
-/** 
+/**
+ * Тип состояния, доступного только для чтения на любой глубине
+ *
+ * @example
+ * ```typescript
+ * const state: DeepReadonly<GameState> = store.state;
+ * state.player.hp = 0; // ошибка компиляции
+ * ```
+ */
+export type DeepReadonly<T> = T extends (...args: never[]) => unknown
+    ? T
+    : T extends Map<infer K, infer V>
+      ? ReadonlyMap<DeepReadonly<K>, DeepReadonly<V>>
+      : T extends Set<infer V>
+        ? ReadonlySet<DeepReadonly<V>>
+        : T extends Date | RegExp | ArrayBuffer | ArrayBufferView
+          ? T
+          : T extends object
+            ? { readonly [K in keyof T]: DeepReadonly<T[K]> }
+            : T;
+
+/**
+ * Способ доступа к состоянию через store.state:
+ * - 'readonly' - кешируемые Proxy только для чтения на любой глубине
+ * - 'development' - как 'readonly', а записанное состояние глубоко замораживается;
+ *   попытка изменения выбрасывает StateMutationError с путем и стеком вызовов
+ * - 'production' - состояние возвращается без Proxy, зависимости computed
+ *   отслеживаются по всему хранилищу
+ */
+export type StoreMode = 'readonly' | 'development' | 'production';
+
+/**
  * Функция обратного вызова для подписки на изменения в хранилище
  * @param state Текущее состояние после обновления
  * @param prev Предыдущее состояние до обновления
  */
 export type Listener<T> = (state: T, prev: T) => void;
 
-/** 
- * Функция middleware для перехвата и преобразования обновлений
- * 
+/**
+ * Функция выбора части состояния для подписки
+ * @param state Текущее состояние
+ * @returns Выбранная часть состояния
+ */
+export type Selector<T, S> = (state: T) => S;
+
+/**
+ * Функция сравнения значений. Возвращает true, если значения считаются равными
+ */
+export type EqualityFn<T> = (a: T, b: T) => boolean;
+
+/**
+ * Способ запуска эффекта после изменения зависимостей:
+ * - 'sync' - сразу при изменении
+ * - 'microtask' - один раз в микрозадаче после всех синхронных изменений
+ * - 'animation-frame' - один раз перед отрисовкой кадра
+ * - экземпляр Scheduler - вместе с остальными задачами этого планировщика
+ * - функция - получает задачу и сама решает, когда ее выполнить
+ */
+export type EffectScheduler = NotificationScheduler | ((job: () => void) => void);
+
+/**
+ * Состояние асинхронного вычисления:
+ * - 'loading' - вычисление выполняется
+ * - 'success' - значение получено
+ * - 'error' - последнее вычисление завершилось ошибкой
+ */
+export type AsyncComputedStatus = 'loading' | 'success' | 'error';
+
+/**
+ * Способ разрешения ключей, которые есть в нескольких объединяемых хранилищах:
+ * - 'error' - выбросить ошибку при объединении
+ * - 'first' / 'last' - взять значение из первого / последнего хранилища
+ * - функция - получает ключ и значения из всех хранилищ и возвращает итоговое значение
+ *
+ * После объединения общий ключ синхронизируется во всех хранилищах, где он есть.
+ */
+export type MixConflictStrategy =
+    | 'error'
+    | 'first'
+    | 'last'
+    | ((key: string, values: unknown[]) => unknown);
+
+/**
+ * Ключи состояния, значения которых являются объектами и могут стать срезом хранилища
+ */
+export type SliceKey<T> = { [K in keyof T]-?: T[K] extends object ? K : never }[keyof T];
+
+/**
+ * Функция записи среза в родительское состояние
+ * @param state Текущее родительское состояние
+ * @param slice Новое значение среза
+ * @returns Частичное обновление родительского состояния
+ */
+export type SliceSetter<T, S> = (state: T, slice: S) => Partial<T>;
+
+/**
+ * Описание источника изменения состояния
+ *
+ * @example
+ * ```typescript
+ * store.update(state => ({ score: state.score + 10 }), { label: 'enemy-killed' });
+ * ```
+ */
+export type UpdateContext = {
+    /** Название изменения, например для логов и devtools */
+    label?: string;
+    /** Действие, вызвавшее изменение (см. defineActions) */
+    action?: ActionInfo;
+};
+
+/**
+ * Название и данные действия, вызвавшего изменение
+ *
  * @example
  * ```typescript
- * const loggerMiddleware: Middleware<GameState> = (state, update, next) => {
+ * const action: ActionInfo = { type: 'addScore', payload: 10 };
+ * ```
+ */
+export type ActionInfo<P = unknown> = {
+    type: string;
+    payload: P;
+};
+
+/**
+ * Хук, вызываемый синхронно сразу после записи нового состояния в хранилище
+ * @param state Новое состояние
+ * @param prev Состояние, которое было заменено (та же ссылка, без копирования)
+ * @param context Описание источника изменения
+ */
+export type CommitHook<T> = (state: T, prev: T, context: UpdateContext) => void;
+
+/**
+ * Функция middleware для перехвата и преобразования обновлений.
+ * Middleware образуют цепочку: next вызывает оставшуюся часть цепочки
+ * и возвращает итоговое состояние. Middleware может изменить обновление
+ * перед вызовом next, обработать результат после него или не вызывать
+ * next вовсе, чтобы отменить обновление.
+ *
+ * @example
+ * ```typescript
+ * const loggerMiddleware: Middleware<GameState> = (state, update, next, context) => {
+ *   console.log('Действие:', context.action?.type ?? context.label);
  *   console.log('Предыдущее состояние:', state);
  *   console.log('Обновление:', update);
  *   const nextState = next(state, update);
@@ -21,20 +152,66 @@ export type Listener<T> = (state: T, prev: T) => void;
  *   return nextState;
  * };
  * ```
- * 
+ *
  * @param state Текущее состояние до обновления
  * @param update Частичное обновление состояния
  * @param next Функция для вызова с модифицированным обновлением
+ * @param context Описание источника изменения: метка и действие
  */
 export type Middleware<T> = (
     state: T,
     update: Partial<T>,
-    next: (state: T, update: Partial<T>) => T
+    next: (state: T, update: Partial<T>) => T,
+    context: UpdateContext,
 ) => T;
 
+/**
+ * Асинхронное middleware. Выполняется только при обновлении через updateAsync,
+ * до синхронной цепочки middleware.
+ *
+ * @example
+ * ```typescript
+ * const remoteCheck: AsyncMiddleware<GameState> = async (state, update, next) => {
+ *   if (!(await server.canApply(update))) return state;
+ *   return next(state, update);
+ * };
+ * ```
+ *
+ * @param state Текущее состояние до обновления
+ * @param update Частичное обновление состояния
+ * @param next Функция для вызова оставшейся части цепочки
+ * @param context Описание источника изменения: метка и действие
+ */
+export type AsyncMiddleware<T> = (
+    state: T,
+    update: Partial<T>,
+    next: (state: T, update: Partial<T>) => Promise<T>,
+    context: UpdateContext,
+) => T | Promise<T>;
+
+/**
+ * Описание одной ошибки валидации
+ *
+ * @example
+ * ```typescript
+ * const issue: ValidationIssue = {
+ *   field: 'playerCount',
+ *   rule: 'min',
+ *   message: 'playerCount must be at least 2'
+ * };
+ * ```
+ */
+export type ValidationIssue = {
+    /** Поле, не прошедшее проверку (если ошибка относится к конкретному полю) */
+    field?: string;
+    /** Название нарушенного правила */
+    rule: string;
+    message: string;
+};
+
 /**
  * Функция валидатора для проверки обновлений перед их применением
- * 
+ *
  * @example
  * ```typescript
  * const playerCountValidator: Validator<GameState> = (update) => {
@@ -45,17 +222,33 @@ export type Middleware<T> = (
  *   return true;
  * };
  * ```
- * 
+ *
  * @param update Частичное обновление состояния для проверки
- * @returns true если валидно, или строка с сообщением об ошибке, если невалидно
+ * @returns true если валидно, строка с сообщением об ошибке или список ошибок по полям, если невалидно
  */
-export type ValidatorResult = true | string;
+export type ValidatorResult = true | string | ValidationIssue[];
 
 export type Validator<T> = (update: Partial<T>) => ValidatorResult;
 
+/**
+ * Функция валидатора, проверяющая итоговое состояние целиком.
+ * Вызывается после цепочки middleware, непосредственно перед записью состояния.
+ *
+ * @example
+ * ```typescript
+ * const levelStep: StateValidator<GameState> = (next, prev) =>
+ *   next.level - prev.level <= 1 || 'Уровень можно повышать только на 1';
+ * ```
+ *
+ * @param nextState Состояние, которое будет записано
+ * @param prevState Текущее состояние до обновления
+ * @param update Исходное частичное обновление
+ */
+export type StateValidator<T> = (nextState: T, prevState: T, update: Partial<T>) => ValidatorResult;
+
 /**
  * Определение типа для полей валидатора
- * 
+ *
  * @example
  * ```typescript
  * const validatorFields: ValidatorFields<GameState> = {
@@ -67,10 +260,107 @@ export type Validator<T> = (update: Partial<T>) => ValidatorResult;
  * ```
  */
 export type ValidatorFields<T> = {
-    [K in keyof T]?: {
-        min?: number;
-        max?: number;
-        minLength?: number;
-        maxLength?: number;
-    } | undefined;
+    [K in keyof T]?: ValidatorFieldRules<T[K]> | undefined;
 };
+
+/**
+ * Набор правил проверки для одного поля
+ *
+ * @example
+ * ```typescript
+ * const nameRules: ValidatorFieldRules<string> = {
+ *   required: true,
+ *   minLength: 3,
+ *   pattern: /^[a-z]+$/i,
+ * };
+ * ```
+ */
+export type ValidatorFieldRules<V> = {
+    min?: number;
+    max?: number;
+    minLength?: number;
+    maxLength?: number;
+    pattern?: RegExp;
+    oneOf?: readonly V[];
+    required?: boolean;
+    validate?: (value: V) => boolean | string;
+};
+
+type PathLeaf =
+    | string
+    | number
+    | boolean
+    | bigint
+    | symbol
+    | null
+    | undefined
+    | ((...args: never[]) => unknown)
+    | Date;
+
+type PathDepth = [never, 0, 1, 2, 3, 4, 5, 6, 7, 8, 9];
+
+/**
+ * Все допустимые пути к вложенным полям состояния в виде кортежей ключей
+ *
+ * @example
+ * ```typescript
+ * type GamePath = Path<{ player: { stats: { hp: number } } }>;
+ * // ['player'] | ['player', 'stats'] | ['player', 'stats', 'hp']
+ * ```
+ */
+export type Path<T, D extends number = 10> = [D] extends [never]
+    ? never
+    : T extends PathLeaf
+      ? never
+      : T extends readonly (infer E)[]
+        ? [number] | [number, ...Path<NonNullable<E>, PathDepth[D]>]
+        : {
+              [K in keyof T & string]-?: [K] | [K, ...Path<NonNullable<T[K]>, PathDepth[D]>];
+          }[keyof T & string];
+
+/**
+ * Тип значения, расположенного по пути P в состоянии T
+ *
+ * @example
+ * ```typescript
+ * type Hp = PathValue<GameState, ['player', 'stats', 'hp']>; // number
+ * ```
+ */
+export type PathValue<T, P extends readonly unknown[]> = P extends readonly [infer K, ...infer Rest]
+    ? K extends keyof NonNullable<T>
+        ? PathValue<NonNullable<T>[K], Rest>
+        : NonNullable<T> extends readonly (infer E)[]
+          ? K extends number
+              ? PathValue<E, Rest>
+              : never
+          : never
+    : T;
+
+/**
+ * Операция JSON Patch (RFC 6902)
+ *
+ * @example
+ * ```typescript
+ * const patch: JsonPatchOperation[] = [
+ *   { op: 'replace', path: '/player/hp', value: 90 },
+ *   { op: 'add', path: '/log/-', value: 'hit' }
+ * ];
+ * ```
+ */
+export type JsonPatchOperation =
+    | { op: 'add'; path: string; value: unknown }
+    | { op: 'remove'; path: string }
+    | { op: 'replace'; path: string; value: unknown }
+    | { op: 'move'; path: string; from: string }
+    | { op: 'copy'; path: string; from: string }
+    | { op: 'test'; path: string; value: unknown };
+
+/**
+ * Функция обратного вызова для подписки на изменения в виде JSON Patch
+ * @param patches Операции, переводящие предыдущее состояние в новое
+ * @param inversePatches Операции, возвращающие новое состояние к предыдущему
+ */
+export type PatchListener = (
+    patches: JsonPatchOperation[],
+    inversePatches: JsonPatchOperation[],
+) => void;
@@ -0,0 +1,136 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Store } from '../store';
+import { stateValidator } from '../validators';
+import { networkStore } from './network-store';
+import { INetworkTransport, INetworkUpdateMessage, NetworkServerMessage } from './types';
+
+interface IPlayerState {
+    x: number;
+    hp: number;
+}
+
+/**
+ * Сервер в памяти: хранит отправленные изменения и отвечает по команде теста
+ */
+function createServer() {
+    const sent: INetworkUpdateMessage<IPlayerState>[] = [];
+    let listener: (message: NetworkServerMessage<IPlayerState>) => void = () => undefined;
+    const transport: INetworkTransport<IPlayerState> = {
+        send: (message) => sent.push(message),
+        subscribe(next) {
+            listener = next;
+            return () => {
+                listener = () => undefined;
+            };
+        },
+    };
+    return {
+        transport,
+        sent,
+        reply: (message: NetworkServerMessage<IPlayerState>) => listener(message),
+    };
+}
+
+describe('networkStore', () => {
+    it('applies local updates optimistically and sends them with sequence numbers', () => {
+        const server = createServer();
+        const store = new Store<IPlayerState>({ x: 0, hp: 100 });
+        const network = networkStore(store, { transport: server.transport });
+
+        network.update((state) => ({ x: state.x + 1 }), { label: 'move' });
+        store.update(() => ({ hp: 90 }));
+
+        expect(store.state).toEqual({ x: 1, hp: 90 });
+        expect(server.sent).toEqual([
+            { type: 'update', seq: 1, changes: { x: 1 }, label: 'move' },
+            { type: 'update', seq: 2, changes: { hp: 90 }, label: undefined },
+        ]);
+        expect(network.pending).toBe(2);
+
+        server.reply({ type: 'ack', seq: 1 });
+        expect(network.pending).toBe(1);
+        expect(network.confirmed).toEqual({ x: 1, hp: 100 });
+    });
+
+    it('rolls back a rejected update and keeps the others', () => {
+        const server = createServer();
+        const onReject = vi.fn();
+        const store = new Store<IPlayerState>({ x: 0, hp: 100 });
+        const network = networkStore(store, { transport: server.transport, onReject });
+        const notified = vi.fn();
+        store.onCommit(notified);
+
+        network.update((state) => ({ x: state.x + 1 }));
+        network.update((state) => ({ hp: state.hp - 10 }));
+        notified.mockClear();
+
+        server.reply({ type: 'reject', seq: 1, reason: 'Blocked' });
+
+        expect(store.state).toEqual({ x: 0, hp: 90 });
+        expect(network.pending).toBe(1);
+        expect(notified).toHaveBeenCalledOnce();
+        expect(onReject).toHaveBeenCalledWith(1, { x: 1 }, 'Blocked');
+    });
+
+    it('replays the changes sent to the server on top of a snapshot', () => {
+        const server = createServer();
+        const store = new Store<IPlayerState>({ x: 0, hp: 100 });
+        const network = networkStore(store, { transport: server.transport });
+
+        network.update((state) => ({ x: state.x + 1 }));
+        network.update((state) => ({ hp: state.hp - 5 }));
+
+        server.reply({ type: 'snapshot', state: { x: 10, hp: 50 }, ack: 1 });
+
+        expect(network.confirmed).toEqual({ x: 10, hp: 50 });
+        expect(network.pending).toBe(1);
+        expect(server.sent[1].changes).toEqual({ hp: 95 });
+        expect(store.state).toEqual({ x: 10, hp: 95 });
+    });
+
+    it('drops pending changes that fail validation after a rebase', () => {
+        const server = createServer();
+        const onReject = vi.fn();
+        const store = new Store<IPlayerState>(
+            { x: 0, hp: 100 },
+            {
+                validators: [
+                    stateValidator<IPlayerState>((next) => next.x <= next.hp || 'Too far'),
+                ],
+            },
+        );
+        const network = networkStore(store, { transport: server.transport, onReject });
+
+        network.update(() => ({ x: 60 }));
+        network.update(() => ({ hp: 80 }));
+
+        server.reply({ type: 'snapshot', state: { x: 0, hp: 50 } });
+
+        expect(store.state).toEqual({ x: 0, hp: 80 });
+        expect(network.pending).toBe(1);
+        expect(onReject).toHaveBeenCalledWith(1, { x: 60 }, expect.stringContaining('Too far'));
+    });
+
+    it('reapplies direct store updates with their values', () => {
+        const server = createServer();
+        const store = new Store<IPlayerState>({ x: 0, hp: 100 });
+        networkStore(store, { transport: server.transport });
+
+        store.update((state) => ({ x: state.x + 5 }));
+        server.reply({ type: 'snapshot', state: { x: 10, hp: 50 } });
+
+        expect(store.state).toEqual({ x: 5, hp: 50 });
+    });
+
+    it('stops sending and receiving after dispose', () => {
+        const server = createServer();
+        const store = new Store<IPlayerState>({ x: 0, hp: 100 });
+        networkStore(store, { transport: server.transport }).dispose();
+
+        store.update(() => ({ x: 1 }));
+        server.reply({ type: 'snapshot', state: { x: 9, hp: 9 } });
+
+        expect(server.sent).toEqual([]);
+        expect(store.state).toEqual({ x: 1, hp: 100 });
+    });
+});
@@ -0,0 +1,151 @@
+import { Store } from '../store';
+import { UpdateContext } from '../models';
+import { changedFields } from '../utils';
+import { INetworkOptions, NetworkRef, NetworkServerMessage } from './types';
+
+interface IPendingUpdate<T> {
+    seq: number;
+    /** Изменения в том виде, в котором они отправлены серверу */
+    changes: Partial<T>;
+}
+
+/**
+ * Переводит хранилище в сетевой режим с авторитетным сервером.
+ *
+ * Локальные изменения применяются сразу (оптимистично), получают порядковый номер
+ * и отправляются серверу. Хранилище помнит подтвержденное состояние и очередь
+ * неподтвержденных изменений:
+ * - ack удаляет из очереди подтвержденные изменения
+ * - reject откатывает отклоненное изменение, сохраняя остальные
+ * - snapshot заменяет подтвержденное состояние и заново применяет поверх него
+ *   изменения, которые сервер еще не обработал
+ *
+ * При перебазировании неподтвержденные изменения применяются заново с теми же
+ * значениями полей, которые получил сервер, поэтому предсказание клиента совпадает
+ * с тем, что сервер сделает с очередью. Каждое изменение проходит валидаторы
+ * хранилища; изменение, которое стало недопустимым поверх нового состояния,
+ * удаляется из очереди и передается в onReject, как отклоненное сервером.
+ *
+ * Откат и перебазирование выполняются одним reset, поэтому подписчики
+ * получают одно согласованное уведомление.
+ *
+ * @example
+ * ```typescript
+ * const store = new Store<GameState>({ x: 0, y: 0, hp: 100 });
+ * const network = networkStore(store, { transport: socketTransport });
+ *
+ * // Игрок видит перемещение сразу, не дожидаясь сервера
+ * network.update(state => ({ x: state.x + 1 }), { label: 'move' });
+ *
+ * network.pending;   // 1
+ * network.confirmed; // { x: 0, y: 0, hp: 100 }
+ * ```
+ *
+ * @param store - Хранилище клиента
+ * @param options - Транспорт и обработчик отклоненных изменений
+ * @returns Объект NetworkRef для управления сетевым режимом
+ */
+export function networkStore<T extends object>(
+    store: Store<T>,
+    options: INetworkOptions<T>,
+): NetworkRef<T> {
+    const { transport } = options;
+
+    let confirmed = store.cloneState();
+    let pending: IPendingUpdate<T>[] = [];
+    let nextSeq = 1;
+    let applying = false;
+
+    const rebase = (label: string) => {
+        let next = confirmed;
+        const invalid: Array<{ entry: IPendingUpdate<T>; error: unknown }> = [];
+        pending = pending.filter((entry) => {
+            try {
+                const state = { ...next, ...entry.changes };
+                store.validateUpdate(entry.changes);
+                store.validateState(state, next, entry.changes);
+                next = state;
+                return true;
+            } catch (error) {
+                invalid.push({ entry, error });
+                return false;
+            }
+        });
+
+        applying = true;
+        try {
+            store.reset(next, { label });
+        } finally {
+            applying = false;
+        }
+
+        invalid.forEach(({ entry, error }) =>
+            options.onReject?.(
+                entry.seq,
+                entry.changes,
+                error instanceof Error ? error.message : String(error),
+            ),
+        );
+    };
+
+    const confirm = (seq: number) => {
+        while (pending.length > 0 && pending[0].seq <= seq) {
+            confirmed = { ...confirmed, ...pending[0].changes };
+            pending.shift();
+        }
+    };
+
+    const handleMessage = (message: NetworkServerMessage<T>) => {
+        switch (message.type) {
+            case 'ack':
+                confirm(message.seq);
+                break;
+            case 'reject': {
+                const rejected = pending.find((entry) => entry.seq === message.seq);
+                if (!rejected) break;
+
+                pending = pending.filter((entry) => entry !== rejected);
+                rebase('rollback');
+                options.onReject?.(rejected.seq, rejected.changes, message.reason);
+                break;
+            }
+            case 'snapshot':
+                if (message.ack !== undefined) {
+                    const ack = message.ack;
+                    pending = pending.filter((entry) => entry.seq > ack);
+                }
+                confirmed = message.state;
+                rebase('snapshot');
+                break;
+        }
+    };
+
+    const unsubscribeTransport = transport.subscribe(handleMessage);
+
+    const unsubscribeStore = store.onCommit((state, prev, context) => {
+        if (applying) return;
+
+        const changes = changedFields(prev, state);
+        if (Object.keys(changes).length === 0) return;
+
+        const seq = nextSeq++;
+        pending.push({ seq, changes });
+        transport.send({ type: 'update', seq, changes, label: context.label });
+    });
+
+    return {
+        get confirmed() {
+            return confirmed;
+        },
+        get pending() {
+            return pending.length;
+        },
+        update(callback: (current: T) => Partial<T>, context?: UpdateContext) {
+            store.update(callback, context);
+        },
+        dispose() {
+            unsubscribeStore();
+            unsubscribeTransport();
+        },
+    };
+}
@@ -0,0 +1,81 @@
+import { UpdateContext } from '../models';
+
+/**
+ * Сообщение клиента серверу: локальное изменение, примененное оптимистично
+ *
+ * @template T Тип состояния хранилища
+ */
+export interface INetworkUpdateMessage<T> {
+    type: 'update';
+    /** Порядковый номер изменения, начиная с 1 */
+    seq: number;
+    changes: Partial<T>;
+    label?: UpdateContext['label'];
+}
+
+/**
+ * Сообщение сервера клиенту:
+ * - ack - изменения до seq включительно применены сервером
+ * - reject - изменение seq отклонено сервером
+ * - snapshot - авторитетное состояние, в которое вошли изменения до ack включительно
+ *
+ * @template T Тип состояния хранилища
+ */
+export type NetworkServerMessage<T> =
+    | { type: 'ack'; seq: number }
+    | { type: 'reject'; seq: number; reason?: string }
+    | { type: 'snapshot'; state: T; ack?: number };
+
+/**
+ * Транспорт между клиентом и авторитетным сервером
+ *
+ * @example
+ * ```typescript
+ * const transport: INetworkTransport<GameState> = {
+ *   send: message => socket.send(JSON.stringify(message)),
+ *   subscribe: listener => {
+ *     const handler = (event: MessageEvent) => listener(JSON.parse(event.data));
+ *     socket.addEventListener('message', handler);
+ *     return () => socket.removeEventListener('message', handler);
+ *   }
+ * };
+ * ```
+ *
+ * @template T Тип состояния хранилища
+ */
+export interface INetworkTransport<T> {
+    send(message: INetworkUpdateMessage<T>): void;
+    subscribe(listener: (message: NetworkServerMessage<T>) => void): () => void;
+}
+
+/**
+ * Опции сетевого режима хранилища
+ *
+ * @template T Тип состояния хранилища
+ */
+export interface INetworkOptions<T> {
+    transport: INetworkTransport<T>;
+    /**
+     * Вызывается, когда изменение было откачено: его отклонил сервер
+     * или валидаторы хранилища при перебазировании
+     */
+    onReject?: (seq: number, changes: Partial<T>, reason?: string) => void;
+}
+
+/**
+ * Объект управления сетевым режимом
+ *
+ * @template T Тип состояния хранилища
+ */
+export interface NetworkRef<T> {
+    /** Последнее подтвержденное сервером состояние */
+    readonly confirmed: T;
+    /** Количество изменений, ожидающих подтверждения */
+    readonly pending: number;
+    /**
+     * Изменить состояние оптимистично. Равносильно store.update: при откате
+     * или новом снимке изменение применяется заново с отправленными серверу значениями полей
+     */
+    update: (callback: (current: T) => Partial<T>, context?: UpdateContext) => void;
+    dispose: () => void;
+}
@@ -0,0 +1,131 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Store } from './store';
+import { applyJsonPatches, createPatches } from './patches';
+
+interface IPlayerState {
+    player: { hp: number; name: string };
+    log: string[];
+    buff?: string;
+}
+
+const createState = (): IPlayerState => ({ player: { hp: 100, name: 'A' }, log: [] });
+
+describe('createPatches', () => {
+    it('creates forward and inverse operations for changed paths', () => {
+        const prev = { hp: 100, log: ['a'], gone: 1, nested: { a: 1 } };
+        const next = { hp: 90, log: ['a', 'b'], added: 'x/y', nested: prev.nested };
+
+        const { patches, inversePatches } = createPatches(prev, next);
+
+        expect(applyJsonPatches(prev, patches)).toEqual(next);
+        expect(applyJsonPatches(next, inversePatches)).toEqual(prev);
+        expect(patches.some((patch) => patch.path.startsWith('/nested'))).toBe(false);
+        expect(patches).toContainEqual({ op: 'add', path: '/added', value: 'x/y' });
+    });
+
+    it('returns no operations for equal states', () => {
+        const state = createState();
+        expect(createPatches(state, state)).toEqual({ patches: [], inversePatches: [] });
+    });
+});
+
+describe('applyJsonPatches', () => {
+    it('supports every operation without mutating the document', () => {
+        const document = { a: { b: 1 }, list: [1, 2, 3], keep: { x: 1 } };
+
+        const result = applyJsonPatches(document, [
+            { op: 'test', path: '/a/b', value: 1 },
+            { op: 'replace', path: '/a/b', value: 2 },
+            { op: 'add', path: '/list/-', value: 4 },
+            { op: 'remove', path: '/list/0' },
+            { op: 'copy', from: '/a', path: '/copy' },
+            { op: 'move', from: '/copy/b', path: '/moved' },
+        ]);
+
+        expect(result).toEqual({
+            a: { b: 2 },
+            list: [2, 3, 4],
+            keep: { x: 1 },
+            copy: {},
+            moved: 2,
+        });
+        expect(result.keep).toBe(document.keep);
+        expect(document).toEqual({ a: { b: 1 }, list: [1, 2, 3], keep: { x: 1 } });
+    });
+
+    it('throws for invalid paths and failed tests', () => {
+        const document = { list: [1] };
+
+        expect(() => applyJsonPatches(document, [{ op: 'remove', path: '/missing' }])).toThrow(
+            'JSON patch path "/missing" does not exist',
+        );
+        expect(() =>
+            applyJsonPatches(document, [{ op: 'add', path: '/list/5', value: 1 }]),
+        ).toThrow('JSON patch array index "5" is out of bounds');
+        expect(() =>
+            applyJsonPatches(document, [{ op: 'test', path: '/list/0', value: 2 }]),
+        ).toThrow('JSON patch test failed at "/list/0"');
+        expect(() =>
+            applyJsonPatches(document, [{ op: 'replace', path: 'list', value: 1 }]),
+        ).toThrow('Invalid JSON pointer "list"');
+    });
+});
+
+describe('Store patches', () => {
+    it('streams patches of every commit', () => {
+        const store = new Store(createState());
+        const listener = vi.fn();
+        store.subscribePatches(listener);
+
+        store.update((state) => ({ player: { ...state.player, hp: 90 } }));
+
+        expect(listener).toHaveBeenCalledWith(
+            [{ op: 'replace', path: '/player/hp', value: 90 }],
+            [{ op: 'replace', path: '/player/hp', value: 100 }],
+        );
+    });
+
+    it('applies patches through validators with the applyPatches label', () => {
+        const store = new Store(createState(), {
+            validators: [(update) => (update.log?.length === 2 ? 'Log is full' : true)],
+        });
+        const labels: Array<string | undefined> = [];
+        store.onCommit((_state, _prev, context) => labels.push(context.label));
+
+        store.applyPatches([{ op: 'add', path: '/log/-', value: 'hit' }]);
+        expect(store.state.log).toEqual(['hit']);
+        expect(labels).toEqual(['applyPatches']);
+
+        expect(() => store.applyPatches([{ op: 'add', path: '/log/-', value: 'miss' }])).toThrow(
+            'Log is full',
+        );
+        expect(store.state.log).toEqual(['hit']);
+    });
+
+    it('removes top-level keys instead of setting them to undefined', () => {
+        const store = new Store<IPlayerState>({ ...createState(), buff: 'haste' });
+        const patches = vi.fn();
+        store.subscribePatches(patches);
+
+        store.applyPatches([{ op: 'remove', path: '/buff' }]);
+
+        expect('buff' in store.state).toBe(false);
+        expect(patches).toHaveBeenCalledWith(
+            [{ op: 'remove', path: '/buff' }],
+            [{ op: 'add', path: '/buff', value: 'haste' }],
+        );
+    });
+
+    it('round-trips inverse patches for undo', () => {
+        const store = new Store(createState());
+        let inverse: Parameters<Store<IPlayerState>['applyPatches']>[0] = [];
+        store.subscribePatches((_patches, inversePatches) => {
+            inverse = inversePatches;
+        });
+
+        store.update(() => ({ log: ['a'], buff: 'shield' }));
+        store.applyPatches(inverse);
+
+        expect(store.state).toEqual(createState());
+    });
+});
@@ -0,0 +1,238 @@
+import { JsonPatchOperation } from './models';
+import { deepEqual } from './equality';
+
+type Container = Record<string, unknown> | unknown[];
+
+const isContainer = (value: unknown): value is Container =>
+    typeof value === 'object' && value !== null;
+
+const escapePointer = (key: string | number): string =>
+    String(key).replace(/~/g, '~0').replace(/\//g, '~1');
+
+const parsePointer = (pointer: string): string[] => {
+    if (pointer === '') return [];
+    if (!pointer.startsWith('/')) {
+        throw new Error(`Invalid JSON pointer "${pointer}"`);
+    }
+    return pointer
+        .slice(1)
+        .split('/')
+        .map((token) => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+};
+
+function diff(
+    prev: unknown,
+    next: unknown,
+    path: string,
+    patches: JsonPatchOperation[],
+    inversePatches: JsonPatchOperation[],
+): void {
+    if (Object.is(prev, next)) return;
+
+    if (
+        !isContainer(prev) ||
+        !isContainer(next) ||
+        Array.isArray(prev) !== Array.isArray(next) ||
+        (!Array.isArray(prev) && !isPlainObject(prev)) ||
+        (!Array.isArray(next) && !isPlainObject(next))
+    ) {
+        patches.push({ op: 'replace', path, value: next });
+        inversePatches.push({ op: 'replace', path, value: prev });
+        return;
+    }
+
+    if (Array.isArray(prev) && Array.isArray(next)) {
+        const common = Math.min(prev.length, next.length);
+        for (let index = 0; index < common; index++) {
+            diff(prev[index], next[index], `${path}/${index}`, patches, inversePatches);
+        }
+        for (let index = common; index < next.length; index++) {
+            patches.push({ op: 'add', path: `${path}/${index}`, value: next[index] });
+            inversePatches.push({ op: 'remove', path: `${path}/${index}` });
+        }
+        for (let index = prev.length - 1; index >= common; index--) {
+            patches.push({ op: 'remove', path: `${path}/${index}` });
+            inversePatches.push({ op: 'add', path: `${path}/${index}`, value: prev[index] });
+        }
+        return;
+    }
+
+    const prevObject = prev as Record<string, unknown>;
+    const nextObject = next as Record<string, unknown>;
+    for (const key of Object.keys(prevObject)) {
+        const keyPath = `${path}/${escapePointer(key)}`;
+        if (!Object.prototype.hasOwnProperty.call(nextObject, key)) {
+            patches.push({ op: 'remove', path: keyPath });
+            inversePatches.push({ op: 'add', path: keyPath, value: prevObject[key] });
+        } else {
+            diff(prevObject[key], nextObject[key], keyPath, patches, inversePatches);
+        }
+    }
+    for (const key of Object.keys(nextObject)) {
+        if (!Object.prototype.hasOwnProperty.call(prevObject, key)) {
+            const keyPath = `${path}/${escapePointer(key)}`;
+            patches.push({ op: 'add', path: keyPath, value: nextObject[key] });
+            inversePatches.push({ op: 'remove', path: keyPath });
+        }
+    }
+}
+
+function isPlainObject(value: object): boolean {
+    const proto = Object.getPrototypeOf(value);
+    return proto === Object.prototype || proto === null;
+}
+
+function getAt(document: unknown, tokens: string[]): unknown {
+    return tokens.reduce<unknown>((current, token) => {
+        if (!isContainer(current) || !(token in current)) {
+            throw new Error(`JSON patch path "/${tokens.join('/')}" does not exist`);
+        }
+        return (current as Record<string, unknown>)[token];
+    }, document);
+}
+
+/**
+ * Изменить контейнер по пути, копируя только контейнеры на этом пути
+ */
+function modifyAt(
+    document: unknown,
+    tokens: string[],
+    modify: (container: Container, key: string) => Container,
+): unknown {
+    if (tokens.length === 0) {
+        throw new Error('JSON patch operation requires a non-empty path');
+    }
+
+    const [key, ...rest] = tokens;
+    if (!isContainer(document)) {
+        throw new Error(`JSON patch path segment "${key}" does not exist`);
+    }
+
+    const copy = (Array.isArray(document) ? [...document] : { ...document }) as Container;
+    if (rest.length === 0) {
+        return modify(copy, key);
+    }
+
+    (copy as Record<string, unknown>)[key] = modifyAt(
+        (document as Record<string, unknown>)[key],
+        rest,
+        modify,
+    );
+    return copy;
+}
+
+function toIndex(container: unknown[], key: string, allowEnd: boolean): number {
+    const index = key === '-' && allowEnd ? container.length : Number(key);
+    if (!Number.isInteger(index) || index < 0 || index > container.length - (allowEnd ? 0 : 1)) {
+        throw new Error(`JSON patch array index "${key}" is out of bounds`);
+    }
+    return index;
+}
+
+function addAt(document: unknown, path: string, value: unknown): unknown {
+    const tokens = parsePointer(path);
+    if (tokens.length === 0) return value;
+
+    return modifyAt(document, tokens, (container, key) => {
+        if (Array.isArray(container)) {
+            container.splice(toIndex(container, key, true), 0, value);
+        } else {
+            container[key] = value;
+        }
+        return container;
+    });
+}
+
+function removeAt(document: unknown, path: string): unknown {
+    getAt(document, parsePointer(path));
+
+    return modifyAt(document, parsePointer(path), (container, key) => {
+        if (Array.isArray(container)) {
+            container.splice(toIndex(container, key, false), 1);
+        } else {
+            delete container[key];
+        }
+        return container;
+    });
+}
+
+function replaceAt(document: unknown, path: string, value: unknown): unknown {
+    const tokens = parsePointer(path);
+    if (tokens.length === 0) return value;
+
+    getAt(document, tokens);
+    return modifyAt(document, tokens, (container, key) => {
+        (container as Record<string, unknown>)[key] = value;
+        return container;
+    });
+}
+
+/**
+ * Вычислить операции JSON Patch между двумя состояниями.
+ * Неизмененные по ссылке поддеревья не обходятся.
+ *
+ * @example
+ * ```typescript
+ * const { patches, inversePatches } = createPatches(
+ *   { hp: 100, log: [] },
+ *   { hp: 90, log: ['hit'] }
+ * );
+ * // patches: [{ op: 'replace', path: '/hp', value: 90 }, { op: 'add', path: '/log/0', value: 'hit' }]
+ * ```
+ *
+ * @param prev - Предыдущее состояние
+ * @param next - Новое состояние
+ * @returns Прямые и обратные операции
+ */
+export function createPatches(
+    prev: unknown,
+    next: unknown,
+): { patches: JsonPatchOperation[]; inversePatches: JsonPatchOperation[] } {
+    const patches: JsonPatchOperation[] = [];
+    const inversePatches: JsonPatchOperation[] = [];
+    diff(prev, next, '', patches, inversePatches);
+    inversePatches.reverse();
+    return { patches, inversePatches };
+}
+
+/**
+ * Применить операции JSON Patch к документу без его изменения.
+ * Копируются только контейнеры на путях изменений.
+ *
+ * @example
+ * ```typescript
+ * const next = applyJsonPatches(state, [{ op: 'replace', path: '/hp', value: 90 }]);
+ * ```
+ *
+ * @param document - Исходный документ
+ * @param patches - Операции для применения
+ * @returns Новый документ
+ * @throws Error если путь не существует или операция test не прошла
+ */
+export function applyJsonPatches<D>(document: D, patches: JsonPatchOperation[]): D {
+    return patches.reduce<unknown>((current, patch) => {
+        switch (patch.op) {
+            case 'add':
+                return addAt(current, patch.path, patch.value);
+            case 'remove':
+                return removeAt(current, patch.path);
+            case 'replace':
+                return replaceAt(current, patch.path, patch.value);
+            case 'move': {
+                const value = getAt(current, parsePointer(patch.from));
+                return addAt(removeAt(current, patch.from), patch.path, value);
+            }
+            case 'copy':
+                return addAt(current, patch.path, getAt(current, parsePointer(patch.from)));
+            case 'test':
+                if (!deepEqual(getAt(current, parsePointer(patch.path)), patch.value)) {
+                    throw new Error(`JSON patch test failed at "${patch.path}"`);
+                }
+                return current;
+            default:
+                throw new Error(
+                    `Unknown JSON patch operation "${(patch as JsonPatchOperation).op}"`,
+                );
+        }
+    }, document) as D;
+}
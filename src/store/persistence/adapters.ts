@@ -0,0 +1,103 @@
+import { IKeyValueStorage, IStorageAdapter } from './types';
+
+/**
+ * Адаптер, хранящий данные в памяти процесса.
+ * Подходит для тестов и временных сохранений.
+ *
+ * @example
+ * ```typescript
+ * const adapter = new MemoryStorageAdapter();
+ * persist(store, { key: 'game', adapter });
+ * ```
+ */
+export class MemoryStorageAdapter implements IStorageAdapter {
+    private _items = new Map<string, string>();
+
+    public getItem(key: string): string | null {
+        return this._items.has(key) ? (this._items.get(key) as string) : null;
+    }
+
+    public setItem(key: string, value: string): void {
+        this._items.set(key, value);
+    }
+
+    public removeItem(key: string): void {
+        this._items.delete(key);
+    }
+}
+
+/**
+ * Адаптер для синхронных key/value хранилищ с интерфейсом localStorage.
+ * По умолчанию использует глобальный localStorage.
+ *
+ * @example
+ * ```typescript
+ * persist(store, { key: 'settings', adapter: new KeyValueStorageAdapter() });
+ * persist(store, { key: 'session', adapter: new KeyValueStorageAdapter(sessionStorage) });
+ * ```
+ */
+export class KeyValueStorageAdapter implements IStorageAdapter {
+    private _storage: IKeyValueStorage;
+
+    constructor(storage?: IKeyValueStorage) {
+        const resolved =
+            storage ?? (globalThis as { localStorage?: IKeyValueStorage }).localStorage;
+        if (!resolved) {
+            throw new Error('Key/value storage is not available in this environment');
+        }
+        this._storage = resolved;
+    }
+
+    public getItem(key: string): string | null {
+        return this._storage.getItem(key);
+    }
+
+    public setItem(key: string, value: string): void {
+        this._storage.setItem(key, value);
+    }
+
+    public removeItem(key: string): void {
+        this._storage.removeItem(key);
+    }
+}
+
+/**
+ * Адаптер, сохраняющий каждый ключ в отдельный JSON-файл в указанной директории.
+ * Работает только в Node.js, модули fs и path загружаются лениво.
+ *
+ * @example
+ * ```typescript
+ * persist(store, { key: 'save-slot-1', adapter: new FileStorageAdapter('./saves') });
+ * ```
+ */
+export class FileStorageAdapter implements IStorageAdapter {
+    constructor(private _directory: string) {}
+
+    public async getItem(key: string): Promise<string | null> {
+        const fs = await import('node:fs/promises');
+        try {
+            return await fs.readFile(await this.resolvePath(key), 'utf8');
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    public async setItem(key: string, value: string): Promise<void> {
+        const fs = await import('node:fs/promises');
+        await fs.mkdir(this._directory, { recursive: true });
+        await fs.writeFile(await this.resolvePath(key), value, 'utf8');
+    }
+
+    public async removeItem(key: string): Promise<void> {
+        const fs = await import('node:fs/promises');
+        await fs.rm(await this.resolvePath(key), { force: true });
+    }
+
+    private async resolvePath(key: string): Promise<string> {
+        const path = await import('node:path');
+        return path.join(this._directory, `${encodeURIComponent(key)}.json`);
+    }
+}
@@ -0,0 +1,166 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Store } from '../store';
+import { StoreValidationError } from '../errors';
+import { stateValidator } from '../validators';
+import { FileStorageAdapter, KeyValueStorageAdapter, MemoryStorageAdapter } from './adapters';
+import { persist } from './persist';
+
+interface IGameState {
+    score: number;
+    level: number;
+    menuOpen: boolean;
+    seen: Set<string>;
+}
+
+const createState = (): IGameState => ({ score: 0, level: 1, menuOpen: false, seen: new Set() });
+
+const save = (adapter: MemoryStorageAdapter, version: number, state: object) =>
+    adapter.setItem('game', JSON.stringify({ version, state }));
+
+describe('persist', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('writes changes with throttling and skips excluded keys', async () => {
+        const adapter = new MemoryStorageAdapter();
+        const store = new Store(createState());
+        const ref = persist(store, { key: 'game', adapter, throttle: 100, exclude: ['menuOpen'] });
+        await ref.hydrated;
+
+        const setItem = vi.spyOn(adapter, 'setItem');
+        store.update(() => ({ score: 1 }));
+        store.update(() => ({ score: 2, menuOpen: true }));
+        expect(setItem).not.toHaveBeenCalled();
+
+        await vi.advanceTimersByTimeAsync(100);
+        expect(setItem).toHaveBeenCalledOnce();
+
+        const restored = new Store(createState());
+        await persist(restored, { key: 'game', adapter }).hydrated;
+        expect(restored.state.score).toBe(2);
+        expect(restored.state.menuOpen).toBe(false);
+        ref.dispose();
+    });
+
+    it('restores Map, Set and Date through the store serializer', async () => {
+        const adapter = new MemoryStorageAdapter();
+        const store = new Store(createState());
+        const ref = persist(store, { key: 'game', adapter });
+        store.update(() => ({ seen: new Set(['intro']) }));
+        await ref.flush();
+
+        const restored = new Store(createState());
+        await persist(restored, { key: 'game', adapter }).hydrated;
+        expect(restored.cloneState().seen).toEqual(new Set(['intro']));
+    });
+
+    it('runs migrations from the saved version', async () => {
+        const adapter = new MemoryStorageAdapter();
+        save(adapter, 0, { score: 5, stage: 3 });
+        const store = new Store(createState());
+
+        await persist(store, {
+            key: 'game',
+            adapter,
+            version: 1,
+            migrations: { 1: ({ stage, ...state }) => ({ ...state, level: stage }) },
+        }).hydrated;
+
+        expect(store.state.score).toBe(5);
+        expect(store.state.level).toBe(3);
+    });
+
+    it('rejects saves from a newer version', async () => {
+        const adapter = new MemoryStorageAdapter();
+        save(adapter, 2, { score: 5 });
+        const onError = vi.fn();
+
+        const ref = persist(new Store(createState()), {
+            key: 'game',
+            adapter,
+            version: 1,
+            onError,
+        });
+
+        await expect(ref.hydrated).rejects.toThrow(
+            'Persisted state "game" has version 2, newer than supported 1',
+        );
+        expect(onError).toHaveBeenCalledOnce();
+    });
+
+    it('validates the restored fields and the merged state', async () => {
+        const adapter = new MemoryStorageAdapter();
+        const store = new Store(createState(), {
+            validators: [
+                (update) => (update.score !== undefined && update.score < 0 ? 'Bad score' : true),
+                stateValidator<IGameState>((next) =>
+                    next.level <= next.score + 1 ? true : 'Level is ahead of score',
+                ),
+            ],
+        });
+        const ref = persist(store, { key: 'game', adapter, hydrate: false, onError: () => {} });
+
+        save(adapter, 0, { score: -1 });
+        await expect(ref.hydrate()).rejects.toThrow('Bad score');
+
+        save(adapter, 0, { level: 9 });
+        await expect(ref.hydrate()).rejects.toBeInstanceOf(StoreValidationError);
+        expect(store.state.level).toBe(1);
+    });
+
+    it('does not write back hydrated state and clears the save', async () => {
+        const adapter = new MemoryStorageAdapter();
+        save(adapter, 0, { score: 3 });
+        const setItem = vi.spyOn(adapter, 'setItem');
+        const store = new Store(createState());
+
+        const ref = persist(store, { key: 'game', adapter });
+        await ref.hydrated;
+        await vi.runAllTimersAsync();
+        expect(setItem).not.toHaveBeenCalled();
+
+        await ref.clear();
+        expect(adapter.getItem('game')).toBeNull();
+    });
+
+    it('stores data in localStorage-like storage', async () => {
+        const items = new Map<string, string>();
+        const adapter = new KeyValueStorageAdapter({
+            getItem: (key) => items.get(key) ?? null,
+            setItem: (key, value) => void items.set(key, value),
+            removeItem: (key) => void items.delete(key),
+        });
+        const store = new Store(createState());
+        const ref = persist(store, { key: 'game', adapter });
+        store.update(() => ({ level: 2 }));
+        await ref.flush();
+
+        expect(JSON.parse(items.get('game')!).state.level).toBe(2);
+    });
+});
+
+describe('FileStorageAdapter', () => {
+    it('writes, reads and removes files', async () => {
+        const directory = await mkdtemp(join(tmpdir(), 'empress-store-'));
+        try {
+            const adapter = new FileStorageAdapter(directory);
+            expect(await adapter.getItem('game')).toBeNull();
+
+            await adapter.setItem('game', '{"score":1}');
+            expect(await adapter.getItem('game')).toBe('{"score":1}');
+
+            await adapter.removeItem('game');
+            expect(await adapter.getItem('game')).toBeNull();
+        } finally {
+            await rm(directory, { recursive: true, force: true });
+        }
+    });
+});
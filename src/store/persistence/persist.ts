@@ -0,0 +1,153 @@
+import { Store } from '../store';
+import { IPersistedState, IPersistOptions, Migration, PersistRef } from './types';
+
+/**
+ * Подключает хранилище к адаптеру сохранения.
+ *
+ * Возможности:
+ * - Сохранение после каждого изменения с ограничением частоты записи
+ * - Белый и черный списки сохраняемых ключей
+ * - Версионирование формата и цепочка миграций старых сохранений
+ * - Проверка восстановленных данных валидаторами хранилища
+ * - Map, Set, Date и классы с кодеками через сериализатор хранилища
+ *
+ * @example
+ * ```typescript
+ * const store = new Store<GameState>({ score: 0, level: 1, isMenuOpen: false });
+ *
+ * const persistence = persist(store, {
+ *   key: 'game',
+ *   adapter: new KeyValueStorageAdapter(),
+ *   throttle: 500,
+ *   exclude: ['isMenuOpen'],
+ *   version: 1,
+ *   migrations: {
+ *     1: state => ({ ...state, level: state.stage })
+ *   }
+ * });
+ *
+ * await persistence.hydrated;
+ *
+ * // Принудительная запись, например перед выходом из игры
+ * await persistence.flush();
+ * ```
+ *
+ * @param store - Хранилище, состояние которого нужно сохранять
+ * @param options - Опции сохранения
+ * @returns Объект PersistRef для управления сохранением
+ */
+export function persist<T extends object>(
+    store: Store<T>,
+    options: IPersistOptions<T>,
+): PersistRef {
+    const { key, adapter, throttle = 0, version = 0, migrations = {} } = options;
+    const serializer = options.serializer ?? store.serializer;
+    const onError =
+        options.onError ?? ((error) => console.warn(`Failed to persist store "${key}"`, error));
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let writing: Promise<void> = Promise.resolve();
+    let hydrating = false;
+    let disposed = false;
+
+    const pickKeys = (state: Partial<T>): Partial<T> => {
+        const picked = {} as Partial<T>;
+        for (const field in state) {
+            if (options.include && !options.include.includes(field)) continue;
+            if (options.exclude && options.exclude.includes(field)) continue;
+            picked[field] = state[field];
+        }
+        return picked;
+    };
+
+    const migrate = (saved: IPersistedState<T>): Partial<T> => {
+        if (saved.version > version) {
+            throw new Error(
+                `Persisted state "${key}" has version ${saved.version}, newer than supported ${version}`,
+            );
+        }
+
+        let state = saved.state;
+        for (let next = saved.version + 1; next <= version; next++) {
+            const migration: Migration | undefined = migrations[next];
+            if (migration) {
+                state = migration(state);
+            }
+        }
+        return state;
+    };
+
+    const write = (): Promise<void> => {
+        const payload: IPersistedState<T> = { version, state: pickKeys(store.rawState) };
+        const result = writing.then(() => adapter.setItem(key, serializer.stringify(payload)));
+        writing = result.catch(() => undefined);
+        return result;
+    };
+
+    const scheduleWrite = () => {
+        if (timer !== undefined) return;
+        timer = setTimeout(() => {
+            timer = undefined;
+            write().catch(onError);
+        }, throttle);
+    };
+
+    const hydrate = async (): Promise<boolean> => {
+        const raw = await adapter.getItem(key);
+        if (raw === null || disposed) {
+            return false;
+        }
+
+        let restored = pickKeys(migrate(serializer.parse<IPersistedState<T>>(raw)));
+        if (options.onHydrate) {
+            restored = options.onHydrate(restored);
+        }
+        const current = store.rawState;
+        const next = { ...current, ...restored };
+        store.validateUpdate(restored);
+        store.validateState(next, current, restored);
+
+        hydrating = true;
+        try {
+            store.reset(next);
+        } finally {
+            hydrating = false;
+        }
+        return true;
+    };
+
+    const unsubscribe = store.onCommit(() => {
+        if (!hydrating) {
+            scheduleWrite();
+        }
+    });
+
+    const hydrated = options.hydrate === false ? Promise.resolve(false) : hydrate();
+    hydrated.catch(onError);
+
+    return {
+        hydrated,
+        hydrate,
+        flush() {
+            if (timer !== undefined) {
+                clearTimeout(timer);
+                timer = undefined;
+            }
+            return write();
+        },
+        async clear() {
+            await writing;
+            await adapter.removeItem(key);
+        },
+        dispose() {
+            if (!disposed) {
+                disposed = true;
+                unsubscribe();
+                if (timer !== undefined) {
+                    clearTimeout(timer);
+                    timer = undefined;
+                }
+            }
+        },
+    };
+}
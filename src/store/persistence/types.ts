@@ -0,0 +1,96 @@
+import type { Serializer } from '../serialization';
+
+/** Значение, которое может быть получено синхронно или асинхронно */
+export type MaybePromise<T> = T | Promise<T>;
+
+/**
+ * Интерфейс адаптера хранилища для сохранения состояния.
+ * Методы могут быть как синхронными, так и асинхронными.
+ *
+ * @example
+ * ```typescript
+ * const remoteAdapter: IStorageAdapter = {
+ *   getItem: key => api.load(key),
+ *   setItem: (key, value) => api.save(key, value),
+ *   removeItem: key => api.remove(key)
+ * };
+ * ```
+ */
+export interface IStorageAdapter {
+    getItem(key: string): MaybePromise<string | null>;
+    setItem(key: string, value: string): MaybePromise<void>;
+    removeItem(key: string): MaybePromise<void>;
+}
+
+/** Синхронное key/value хранилище с интерфейсом localStorage */
+export interface IKeyValueStorage {
+    getItem(key: string): string | null;
+    setItem(key: string, value: string): void;
+    removeItem(key: string): void;
+}
+
+/**
+ * Функция миграции сохраненного состояния с предыдущей версии на следующую
+ * @param state Состояние в формате предыдущей версии
+ * @returns Состояние в формате следующей версии
+ */
+export type Migration = (state: any) => any;
+
+/**
+ * Опции подключения хранилища к адаптеру сохранения
+ *
+ * @example
+ * ```typescript
+ * const options: IPersistOptions<GameState> = {
+ *   key: 'game',
+ *   adapter: new KeyValueStorageAdapter(),
+ *   throttle: 500,
+ *   exclude: ['isMenuOpen'],
+ *   version: 2,
+ *   migrations: {
+ *     1: state => ({ ...state, level: state.stage }),
+ *     2: state => ({ ...state, score: state.score ?? 0 })
+ *   }
+ * };
+ * ```
+ *
+ * @template T Тип состояния хранилища
+ */
+export interface IPersistOptions<T> {
+    /** Ключ, под которым состояние сохраняется в адаптере */
+    key: string;
+    adapter: IStorageAdapter;
+    /** Минимальный интервал между записями в миллисекундах (по умолчанию 0) */
+    throttle?: number;
+    /** Сохранять только перечисленные ключи */
+    include?: Array<keyof T>;
+    /** Не сохранять перечисленные ключи */
+    exclude?: Array<keyof T>;
+    /** Текущая версия формата состояния (по умолчанию 0) */
+    version?: number;
+    /** Миграции, где ключ - версия, в которую переводит функция */
+    migrations?: Record<number, Migration>;
+    /** Восстановить состояние сразу при подключении (по умолчанию true) */
+    hydrate?: boolean;
+    /** Хук для преобразования восстановленных данных перед валидацией */
+    onHydrate?: (state: Partial<T>) => Partial<T>;
+    /** Сериализатор записей (по умолчанию сериализатор хранилища) */
+    serializer?: Serializer;
+    /** Обработчик ошибок фоновой записи и автоматического восстановления */
+    onError?: (error: unknown) => void;
+}
+
+/** Формат записи, которая хранится в адаптере */
+export interface IPersistedState<T> {
+    version: number;
+    state: Partial<T>;
+}
+
+export interface PersistRef {
+    /** Промис автоматического восстановления при подключении */
+    readonly hydrated: Promise<boolean>;
+    hydrate: () => Promise<boolean>;
+    flush: () => Promise<void>;
+    clear: () => Promise<void>;
+    dispose: () => void;
+}
@@ -0,0 +1,260 @@
+import type { Store } from './store';
+import { EffectScheduler } from './models';
+import { resolveScheduler } from './scheduling';
+
+/** Ключ, означающий зависимость от набора всех полей (Object.keys, spread) */
+export const ALL_KEYS = Symbol('all keys');
+
+export type TrackedKey = PropertyKey | typeof ALL_KEYS;
+
+/**
+ * Источник реактивного значения (computed), от которого могут зависеть наблюдатели.
+ * Версия увеличивается только когда значение действительно изменилось.
+ */
+export interface IReactiveSource {
+    readonly version: number;
+    readonly observers: Set<IReactiveObserver>;
+    /** Привести значение в актуальное состояние */
+    refresh(): void;
+}
+
+/**
+ * Наблюдатель (computed или effect), который собирает зависимости во время выполнения
+ * и получает уведомления об их изменении.
+ *
+ * - 'dirty' - прямая зависимость изменилась, нужен пересчет
+ * - 'check' - изменилась одна из зависимостей источника, нужно проверить источники
+ */
+export interface IReactiveObserver {
+    trackKey(store: object, key: TrackedKey): void;
+    trackSource(source: IReactiveSource): void;
+    invalidate(level: 'dirty' | 'check'): void;
+}
+
+let activeObserver: IReactiveObserver | null = null;
+
+/**
+ * Сообщить текущему наблюдателю о чтении поля хранилища
+ * @param store Хранилище, из состояния которого читается поле
+ * @param key Прочитанное поле
+ */
+export function trackKey(store: object, key: TrackedKey): void {
+    activeObserver?.trackKey(store, key);
+}
+
+/**
+ * Сообщить текущему наблюдателю о чтении вычисляемого значения
+ * @param source Источник, значение которого прочитано
+ */
+export function trackSource(source: IReactiveSource): void {
+    activeObserver?.trackSource(source);
+}
+
+/**
+ * Выполнить функцию, собирая прочитанные зависимости в наблюдателе.
+ * Передача null выполняет функцию без отслеживания.
+ * @param observer Наблюдатель, получающий зависимости
+ * @param fn Выполняемая функция
+ */
+export function runTracked<R>(observer: IReactiveObserver | null, fn: () => R): R {
+    const previous = activeObserver;
+    activeObserver = observer;
+    try {
+        return fn();
+    } finally {
+        activeObserver = previous;
+    }
+}
+
+/**
+ * Набор зависимостей наблюдателя: прочитанные поля хранилищ и вычисляемые источники.
+ * Подписывается на хранилища через onCommit и сообщает наблюдателю об изменении
+ * прочитанных полей.
+ */
+export class Dependencies {
+    private _storeKeys = new Map<Store<object>, Set<TrackedKey>>();
+    private _sources = new Map<IReactiveSource, number>();
+    private _hooks = new Map<Store<object>, () => void>();
+
+    constructor(private _observer: IReactiveObserver) {}
+
+    public addKey(store: object, key: TrackedKey): void {
+        const keys = this._storeKeys.get(store as Store<object>);
+        if (keys) {
+            keys.add(key);
+        } else {
+            this._storeKeys.set(store as Store<object>, new Set([key]));
+        }
+    }
+
+    public addSource(source: IReactiveSource): void {
+        if (!this._sources.has(source)) {
+            this._sources.set(source, source.version);
+            source.observers.add(this._observer);
+        }
+    }
+
+    /**
+     * Выполнить функцию, заново собрав зависимости
+     * @param fn Функция, чтения которой становятся зависимостями
+     */
+    public collect<R>(fn: () => R): R {
+        const previousSources = this._sources;
+        this._storeKeys = new Map();
+        this._sources = new Map();
+
+        try {
+            return runTracked(this._observer, fn);
+        } finally {
+            previousSources.forEach((_, source) => {
+                if (!this._sources.has(source)) {
+                    source.observers.delete(this._observer);
+                }
+            });
+            this.syncHooks();
+        }
+    }
+
+    /**
+     * Актуализировать вычисляемые источники и проверить, изменилось ли значение хотя бы одного
+     */
+    public sourcesChanged(): boolean {
+        for (const [source, seenVersion] of this._sources) {
+            source.refresh();
+            if (source.version !== seenVersion) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    public clear(): void {
+        this._hooks.forEach((unsubscribe) => unsubscribe());
+        this._hooks.clear();
+        this._sources.forEach((_, source) => source.observers.delete(this._observer));
+        this._sources.clear();
+        this._storeKeys.clear();
+    }
+
+    /**
+     * Подписаться на хранилища, поля которых были прочитаны, и отписаться от остальных
+     */
+    private syncHooks(): void {
+        this._hooks.forEach((unsubscribe, store) => {
+            if (!this._storeKeys.has(store)) {
+                unsubscribe();
+                this._hooks.delete(store);
+            }
+        });
+
+        this._storeKeys.forEach((_, store) => {
+            if (this._hooks.has(store)) return;
+
+            this._hooks.set(
+                store,
+                store.onCommit((state, prev) => {
+                    const keys = this._storeKeys.get(store);
+                    if (keys && hasChangedKeys(keys, state, prev)) {
+                        this._observer.invalidate('dirty');
+                    }
+                }),
+            );
+        });
+    }
+}
+
+/**
+ * Проверить, изменилось ли хотя бы одно из прочитанных полей
+ * @param keys Поля, прочитанные при последнем выполнении
+ * @param state Новое состояние хранилища
+ * @param prev Предыдущее состояние хранилища
+ */
+function hasChangedKeys(keys: Set<TrackedKey>, state: object, prev: object): boolean {
+    for (const key of keys) {
+        if (key === ALL_KEYS || !Object.is(Reflect.get(state, key), Reflect.get(prev, key))) {
+            return true;
+        }
+    }
+    return false;
+}
+
+function schedule(job: () => void, scheduler: EffectScheduler): void {
+    if (typeof scheduler === 'function') {
+        scheduler(job);
+    } else {
+        resolveScheduler(scheduler).schedule(job);
+    }
+}
+
+/**
+ * Создать реакцию: compute выполняется с отслеживанием зависимостей,
+ * react получает результат вне отслеживания. При изменении зависимостей
+ * реакция планируется заново.
+ * @param compute Функция, чтения которой становятся зависимостями
+ * @param react Обработчик результата
+ * @param scheduler Способ запуска после изменения зависимостей
+ * @returns Функция остановки реакции
+ */
+export function createReaction<R>(
+    compute: () => R,
+    react: (result: R) => void,
+    scheduler: EffectScheduler,
+): () => void {
+    let pending: 'dirty' | 'check' | null = null;
+    let computing = false;
+    let disposed = false;
+
+    const observer: IReactiveObserver = {
+        trackKey(store, key) {
+            dependencies.addKey(store, key);
+        },
+        trackSource(source) {
+            dependencies.addSource(source);
+        },
+        invalidate(level) {
+            // Изменения, сделанные самой реакцией во время вычисления, не перезапускают ее
+            if (disposed || computing) return;
+
+            if (pending) {
+                if (level === 'dirty') {
+                    pending = level;
+                }
+                return;
+            }
+
+            pending = level;
+            schedule(job, scheduler);
+        },
+    };
+
+    const dependencies = new Dependencies(observer);
+
+    const run = () => {
+        computing = true;
+        let result: R;
+        try {
+            result = dependencies.collect(compute);
+        } finally {
+            computing = false;
+        }
+        runTracked(null, () => react(result));
+    };
+
+    const job = () => {
+        if (disposed || !pending) return;
+
+        const level = pending;
+        pending = null;
+        if (level === 'check' && !dependencies.sourcesChanged()) return;
+
+        run();
+    };
+
+    run();
+
+    return () => {
+        disposed = true;
+        pending = null;
+        dependencies.clear();
+    };
+}
@@ -0,0 +1,166 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Store } from './store';
+import { StateMutationError } from './errors';
+
+interface IGameState {
+    player: { hp: number; items: string[] };
+    seen: Set<string>;
+}
+
+const createState = (): IGameState => ({
+    player: { hp: 100, items: ['sword'] },
+    seen: new Set(['intro']),
+});
+
+/** Изменить состояние в обход типов, как это сделал бы код без проверки типов */
+const mutable = (state: unknown) => state as { player: { hp: number; items: string[] } };
+
+afterEach(() => {
+    Store.configure({ mode: 'readonly' });
+    vi.restoreAllMocks();
+});
+
+describe("'readonly' mode", () => {
+    it('blocks writes at any depth and warns', () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+        const store = new Store(createState());
+
+        expect(() => {
+            mutable(store.state).player.hp = 0;
+        }).toThrow(TypeError);
+        expect(() => mutable(store.state).player.items.push('shield')).toThrow(TypeError);
+
+        expect(store.state.player).toEqual({ hp: 100, items: ['sword'] });
+        expect(warn).toHaveBeenCalledWith(
+            'Direct state mutation of "hp" is not allowed. Use update instead.',
+        );
+    });
+
+    it('returns the same cached proxies until the state changes', () => {
+        const store = new Store(createState());
+        const player = store.state.player;
+
+        expect(store.state).toBe(store.state);
+        expect(store.state.player).toBe(player);
+
+        store.update(() => ({ seen: new Set() }));
+        expect(store.state.player).toBe(player);
+
+        store.update((state) => ({ player: { ...state.player, hp: 1 } }));
+        expect(store.state.player).not.toBe(player);
+    });
+
+    it('keeps built-in types usable and stores raw objects, not proxies', () => {
+        const store = new Store(createState());
+
+        const player = store.rawState.player;
+
+        expect(store.state.seen.has('intro')).toBe(true);
+        store.update((state) => ({ player: state.player, seen: new Set(state.seen) }));
+
+        expect(store.rawState.player).toBe(player);
+        expect(Object.keys(store.state.player)).toEqual(['hp', 'items']);
+        expect(JSON.stringify(store.state.player)).toBe('{"hp":100,"items":["sword"]}');
+    });
+});
+
+describe('Map, Set and Date values', () => {
+    const createDates = () => ({
+        seen: new Set(['intro']),
+        scores: new Map([['alice', 1]]),
+        savedAt: new Date(0),
+    });
+
+    it('blocks their mutating methods in readonly mode and warns', () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+        const store = new Store(createDates());
+
+        (store.state.seen as Set<string>).add('cave');
+        (store.state.scores as Map<string, number>).set('alice', 5);
+        (store.state.savedAt as Date).setTime(1000);
+
+        expect(store.rawState.seen).toEqual(new Set(['intro']));
+        expect(store.rawState.scores.get('alice')).toBe(1);
+        expect(store.rawState.savedAt.getTime()).toBe(0);
+        expect(warn).toHaveBeenCalledWith(
+            'Direct state mutation of "add" is not allowed. Use update instead.',
+        );
+        expect(store.state.scores.get('alice')).toBe(1);
+        expect([...store.state.seen]).toEqual(['intro']);
+    });
+
+    it('throws StateMutationError with the path in development mode', () => {
+        const store = new Store(createDates(), { mode: 'development' });
+
+        expect(() => (store.state.scores as Map<string, number>).clear()).toThrow(
+            new StateMutationError(['scores', 'clear']),
+        );
+        expect(() => (store.state.savedAt as Date).setFullYear(2000)).toThrow(StateMutationError);
+        expect(store.rawState.scores.size).toBe(1);
+        expect(store.rawState.savedAt.getTime()).toBe(0);
+    });
+
+    it('stores the original values when they are passed back in an update', () => {
+        const store = new Store(createDates());
+        const scores = store.rawState.scores;
+
+        store.update((state) => ({
+            scores: state.scores as Map<string, number>,
+            savedAt: new Date(1),
+        }));
+
+        expect(store.rawState.scores).toBe(scores);
+    });
+});
+
+describe("'development' mode", () => {
+    it('throws StateMutationError with the path of the mutation', () => {
+        const store = new Store(createState(), { mode: 'development' });
+
+        let error: unknown;
+        try {
+            mutable(store.state).player.items[0] = 'axe';
+        } catch (caught) {
+            error = caught;
+        }
+
+        expect(error).toBeInstanceOf(StateMutationError);
+        expect((error as StateMutationError).path).toEqual(['player', 'items', '0']);
+        expect((error as StateMutationError).message).toBe(
+            'Cannot mutate store state at "player.items.0". Use update instead.',
+        );
+        expect((error as StateMutationError).stack).toContain('readonly.test.ts');
+    });
+
+    it('deep-freezes committed state', () => {
+        const store = new Store(createState(), { mode: 'development' });
+
+        store.update(() => ({ player: { hp: 5, items: [] } }));
+
+        expect(Object.isFrozen(store.rawState.player)).toBe(true);
+        expect(Object.isFrozen(store.rawState.player.items)).toBe(true);
+        expect(() => {
+            mutable(store.prev).player.hp = 1;
+        }).toThrow(StateMutationError);
+    });
+});
+
+describe("'production' mode", () => {
+    it('returns state without proxies', () => {
+        const store = new Store(createState(), { mode: 'production' });
+
+        expect(store.state).toBe(store.rawState);
+        expect(store.prev).toBe(store.rawState);
+    });
+
+    it('follows the global mode unless the store sets its own', () => {
+        const global = new Store(createState());
+        const own = new Store(createState(), { mode: 'readonly' });
+
+        Store.configure({ mode: 'production' });
+
+        expect(global.mode).toBe('production');
+        expect(global.state).toBe(global.rawState);
+        expect(own.state).not.toBe(own.rawState);
+    });
+});
@@ -0,0 +1,252 @@
+import { DeepReadonly } from './models';
+import { StateMutationError } from './errors';
+import { ALL_KEYS, TrackedKey } from './reactivity';
+
+/** Исходные объекты для Proxy, выданных геттером state */
+const proxyTargets = new WeakMap<object, object>();
+
+/** Proxy вложенных объектов, общие для всех хранилищ */
+const readonlyProxies = new WeakMap<object, object>();
+
+/** Proxy вложенных объектов в режиме разработки, по пути от корня состояния */
+const pathProxies = new WeakMap<object, Map<string, object>>();
+
+/** Объекты состояния, которые уже проверены на отсутствие Proxy */
+const unwrappedObjects = new WeakSet<object>();
+
+/**
+ * Можно ли обернуть значение в Proxy. Методы Map, Set, Date, типизированных
+ * массивов и классов с приватными полями не работают через Proxy.
+ */
+function isProxyable(value: unknown): value is object {
+    if (!(value instanceof Object)) return false;
+    if (Array.isArray(value)) return true;
+    return Object.getPrototypeOf(value) === Object.prototype;
+}
+
+const MAP_MUTATORS = new Set<PropertyKey>(['set', 'delete', 'clear']);
+const SET_MUTATORS = new Set<PropertyKey>(['add', 'delete', 'clear']);
+const DATE_MUTATORS = new Set<PropertyKey>(
+    Object.getOwnPropertyNames(Date.prototype).filter((name) => name.startsWith('set')),
+);
+
+/**
+ * Методы, которые изменяют Map, Set или Date на месте.
+ * Для остальных значений возвращается undefined.
+ */
+function getMutators(value: unknown): ReadonlySet<PropertyKey> | undefined {
+    if (value instanceof Map) return MAP_MUTATORS;
+    if (value instanceof Set) return SET_MUTATORS;
+    if (value instanceof Date) return DATE_MUTATORS;
+    return undefined;
+}
+
+/**
+ * Запретить изменение состояния: в режиме разработки выбрасывается
+ * StateMutationError с путем, иначе выводится предупреждение
+ * @param path Путь от корня состояния, только в режиме разработки
+ * @param key Изменяемое поле или метод
+ */
+function rejectMutation(path: PropertyKey[] | undefined, key?: PropertyKey): boolean {
+    if (path) {
+        throw new StateMutationError(key === undefined ? path : [...path, key]);
+    }
+    console.warn(
+        `Direct state mutation${key === undefined ? '' : ` of "${String(key)}"`} is not allowed. Use update instead.`,
+    );
+    return false;
+}
+
+/**
+ * Создать обработчик Proxy только для чтения.
+ *
+ * Proxy создается над пустым теневым объектом: инварианты Proxy проверяются
+ * по нему, поэтому вложенные Proxy можно возвращать и для замороженного состояния.
+ *
+ * @param target Объект состояния
+ * @param path Путь от корня состояния, только в режиме разработки
+ * @param onRead Функция отслеживания чтения полей корня
+ */
+function createHandler(
+    target: object,
+    path: PropertyKey[] | undefined,
+    onRead?: (key: TrackedKey) => void,
+): ProxyHandler<object> {
+    const wrap = (key: PropertyKey, value: unknown) =>
+        isProxyable(value) || getMutators(value)
+            ? readonlyChild(value as object, path && [...path, key])
+            : value;
+    const reject = (key?: PropertyKey) => rejectMutation(path, key);
+
+    return {
+        get: (_, key) => {
+            onRead?.(key);
+            return wrap(key, Reflect.get(target, key));
+        },
+        has: (_, key) => {
+            onRead?.(key);
+            return Reflect.has(target, key);
+        },
+        ownKeys: () => {
+            onRead?.(ALL_KEYS);
+            return Reflect.ownKeys(target);
+        },
+        getOwnPropertyDescriptor: (shadow, key) => {
+            const descriptor = Reflect.getOwnPropertyDescriptor(target, key);
+            if (!descriptor) return undefined;
+
+            if ('value' in descriptor) {
+                descriptor.value = wrap(key, descriptor.value);
+            }
+            // Неизменяемое поле теневого объекта (length массива) должно остаться таким же
+            const shadowDescriptor = Reflect.getOwnPropertyDescriptor(shadow, key);
+            return shadowDescriptor && !shadowDescriptor.configurable
+                ? { ...descriptor, writable: shadowDescriptor.writable, configurable: false }
+                : { ...descriptor, configurable: true };
+        },
+        getPrototypeOf: () => Reflect.getPrototypeOf(target),
+        set: (_, key) => reject(key),
+        deleteProperty: (_, key) => reject(key),
+        defineProperty: (_, key) => reject(key),
+        setPrototypeOf: () => reject(),
+        preventExtensions: () => reject(),
+    };
+}
+
+/**
+ * Создать обработчик Proxy для Map, Set и Date. Их методы работают только
+ * с исходным объектом, поэтому вызываются на нем, а изменяющие методы запрещены.
+ * Значения внутри Map и Set возвращаются как есть.
+ *
+ * @param target Map, Set или Date из состояния
+ * @param mutators Изменяющие методы
+ * @param path Путь от корня состояния, только в режиме разработки
+ */
+function createBuiltInHandler(
+    target: object,
+    mutators: ReadonlySet<PropertyKey>,
+    path: PropertyKey[] | undefined,
+): ProxyHandler<object> {
+    return {
+        get: (_, key) => {
+            const value: unknown = Reflect.get(target, key, target);
+            if (typeof value !== 'function') return value;
+            if (mutators.has(key)) {
+                return () => {
+                    rejectMutation(path, key);
+                };
+            }
+            return value.bind(target);
+        },
+        set: (_, key) => rejectMutation(path, key),
+        deleteProperty: (_, key) => rejectMutation(path, key),
+        defineProperty: (_, key) => rejectMutation(path, key),
+        setPrototypeOf: () => rejectMutation(path),
+        preventExtensions: () => rejectMutation(path),
+    };
+}
+
+function createProxy<T extends object>(
+    target: T,
+    path: PropertyKey[] | undefined,
+    onRead?: (key: TrackedKey) => void,
+): T {
+    const mutators = getMutators(target);
+    const proxy = (
+        mutators
+            ? new Proxy(target, createBuiltInHandler(target, mutators, path))
+            : new Proxy(Array.isArray(target) ? [] : {}, createHandler(target, path, onRead))
+    ) as T;
+    proxyTargets.set(proxy, target);
+    unwrappedObjects.add(target);
+    return proxy;
+}
+
+function readonlyChild(target: object, path: PropertyKey[] | undefined): object {
+    if (!path) {
+        let proxy = readonlyProxies.get(target);
+        if (!proxy) {
+            proxy = createProxy(target, undefined);
+            readonlyProxies.set(target, proxy);
+        }
+        return proxy;
+    }
+
+    let byPath = pathProxies.get(target);
+    if (!byPath) {
+        byPath = new Map();
+        pathProxies.set(target, byPath);
+    }
+
+    const key = path.map(String).join('.');
+    let proxy = byPath.get(key);
+    if (!proxy) {
+        proxy = createProxy(target, path);
+        byPath.set(key, proxy);
+    }
+    return proxy;
+}
+
+/**
+ * Создать Proxy корня состояния, доступный только для чтения на любой глубине.
+ * Вложенные Proxy кешируются, поэтому повторное чтение возвращает тот же объект.
+ * @param state Состояние хранилища
+ * @param withPath Выбрасывать StateMutationError с путем изменения вместо предупреждения
+ * @param onRead Функция отслеживания чтения полей корня
+ */
+export function createReadonlyState<T extends object>(
+    state: T,
+    withPath: boolean,
+    onRead?: (key: TrackedKey) => void,
+): DeepReadonly<T> {
+    return createProxy(state, withPath ? [] : undefined, onRead) as DeepReadonly<T>;
+}
+
+/**
+ * Заменить Proxy из state на исходные объекты на любой глубине,
+ * чтобы они не попали в новое состояние. Объекты с Proxy копируются,
+ * переданные объекты не изменяются.
+ * @param value Значение обновления
+ */
+export function unwrapProxies<V>(value: V): V {
+    if (typeof value !== 'object' || value === null) {
+        return value;
+    }
+
+    // Proxy проверяется первым: проверки типа вызывали бы его ловушки
+    const target = proxyTargets.get(value);
+    if (target) {
+        return target as V;
+    }
+    if (unwrappedObjects.has(value) || !isProxyable(value) || Object.isFrozen(value)) {
+        return value;
+    }
+
+    let copy: Record<PropertyKey, unknown> | undefined;
+    const replace = (key: PropertyKey, item: unknown) => {
+        const unwrapped = unwrapProxies(item);
+        if (unwrapped !== item) {
+            copy ??= (Array.isArray(value) ? [...value] : { ...value }) as Record<
+                PropertyKey,
+                unknown
+            >;
+            copy[key] = unwrapped;
+        }
+    };
+
+    if (Array.isArray(value)) {
+        for (let index = 0; index < value.length; index++) {
+            replace(index, value[index]);
+        }
+    } else {
+        for (const key of Object.keys(value)) {
+            replace(key, (value as Record<string, unknown>)[key]);
+        }
+    }
+
+    if (copy) {
+        return copy as V;
+    }
+    unwrappedObjects.add(value);
+    return value;
+}
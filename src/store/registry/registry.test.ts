@@ -0,0 +1,131 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Store } from '../store';
+import { computed, ComputedRef } from '../computed';
+import { mixStores } from '../store-mixer';
+import { StoreRegistry } from './registry';
+
+interface IGameState {
+    score: number;
+}
+
+class GameStore extends Store<IGameState> {
+    public addScore(points: number): void {
+        this.update((state) => ({ score: state.score + points }));
+    }
+}
+
+class GameStoreV2 extends GameStore {
+    public addScore(points: number): void {
+        this.update((state) => ({ score: state.score + points * 2 }));
+    }
+}
+
+describe('StoreRegistry', () => {
+    it('registers, looks up and unregisters stores by name', () => {
+        const registry = new StoreRegistry();
+        const game = new Store<IGameState>({ score: 0 });
+
+        const unregister = registry.register('game', game);
+        expect(registry.get('game')).toBe(game);
+        expect(registry.names()).toEqual(['game']);
+        expect(() => registry.register('game', game)).toThrow('Store "game" is already registered');
+
+        unregister();
+        expect(registry.has('game')).toBe(false);
+        expect(() => registry.get('game')).toThrow('Store "game" is not registered');
+    });
+
+    it('creates provided stores lazily with their dependencies', () => {
+        const registry = new StoreRegistry();
+        const factory = vi.fn(() => new Store({ level: 1 }));
+        registry.provide('level', factory);
+        registry.provide(
+            'hud',
+            (r) => new Store({ level: r.get<Store<{ level: number }>>('level').state.level }),
+        );
+
+        expect(factory).not.toHaveBeenCalled();
+        const hud = registry.get<Store<{ level: number }>>('hud');
+        expect(hud.state.level).toBe(1);
+        expect(registry.get('level')).toBe(registry.get('level'));
+        expect(factory).toHaveBeenCalledOnce();
+    });
+
+    it('detects circular dependencies between providers', () => {
+        const registry = new StoreRegistry();
+        registry.provide('a', (r) => r.get('b'));
+        registry.provide('b', (r) => r.get('a'));
+
+        expect(() => registry.get('a')).toThrow(
+            'Circular dependency detected while resolving store "a"',
+        );
+    });
+
+    it('snapshots and hydrates every registered store in one batch', () => {
+        const registry = new StoreRegistry();
+        const game = new Store<IGameState>({ score: 5 });
+        const ui = new Store({ open: false });
+        registry.register('game', game);
+        registry.register('ui', ui);
+        registry.register(
+            'total',
+            computed(game, (state) => state.score),
+        );
+
+        const snapshot = registry.snapshotAll();
+        expect(snapshot).toEqual({ game: { score: 5 }, ui: { open: false } });
+
+        game.update(() => ({ score: 9 }));
+        ui.update(() => ({ open: true }));
+        registry.hydrateAll({ ...snapshot, unknown: { x: 1 } });
+
+        expect(game.state.score).toBe(5);
+        expect(ui.state.open).toBe(false);
+    });
+
+    it('registers mixed stores and computed values automatically', () => {
+        const registry = new StoreRegistry();
+        const game = new Store<IGameState>({ score: 3 });
+        const mixed = mixStores([game], { name: 'mixed', registry });
+        const double = computed(game, (state) => state.score * 2, { name: 'double', registry });
+
+        expect(registry.get('mixed')).toBe(mixed);
+        expect(registry.get<ComputedRef<number>>('double').value).toBe(6);
+
+        double.dispose();
+        expect(registry.has('double')).toBe(false);
+    });
+
+    it('hot replaces a store implementation keeping state and subscribers', async () => {
+        const registry = new StoreRegistry();
+        const game = new GameStore({ score: 1 });
+        registry.register('game', game);
+        const listener = vi.fn();
+        game.subscribe(listener);
+
+        const next = new GameStoreV2({ score: 0, level: 1 } as IGameState, {
+            validators: [(update) => (update.score === 100 ? 'Too much' : true)],
+        });
+        const replaced = registry.replace('game', next);
+
+        expect(replaced).toBe(game);
+        game.addScore(2);
+        await Promise.resolve();
+
+        expect(game.state).toEqual({ score: 5, level: 1 });
+        expect(listener).toHaveBeenCalled();
+        expect(() => game.update(() => ({ score: 100 }))).toThrow('Too much');
+    });
+
+    it('refuses to hot replace computed values', () => {
+        const registry = new StoreRegistry();
+        registry.register(
+            'value',
+            computed(new Store({ n: 1 }), (state) => state.n),
+        );
+
+        expect(() => registry.replace('value', new Store({}))).toThrow(
+            'Entry "value" is not a store and cannot be hot replaced',
+        );
+    });
+});
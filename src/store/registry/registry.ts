@@ -0,0 +1,190 @@
+import { Store } from '../store';
+import { UpdateContext } from '../models';
+import { RegistryEntry, RegistryProvider, RegistrySnapshot } from './types';
+
+/**
+ * Реестр именованных хранилищ и computed.
+ *
+ * Возможности:
+ * - Регистрация под уникальными именами и поиск по имени
+ * - Ленивое создание через фабрики, получающие зависимости из реестра
+ * - Общий снимок и восстановление состояния всех хранилищ
+ * - Горячая замена реализации хранилища с сохранением состояния и подписчиков
+ *
+ * mixStores и computed регистрируют результат сами, если указана опция name.
+ *
+ * @example
+ * ```typescript
+ * const registry = new StoreRegistry();
+ *
+ * registry.register('game', gameStore);
+ * registry.provide('hud', registry => new HudStore(registry.get<Store<GameState>>('game')));
+ *
+ * const hud = registry.get<HudStore>('hud');
+ *
+ * const snapshot = registry.snapshotAll();
+ * localStorage.setItem('save', JSON.stringify(snapshot));
+ * registry.hydrateAll(JSON.parse(localStorage.getItem('save')!));
+ * ```
+ */
+export class StoreRegistry {
+    private _entries = new Map<string, RegistryEntry>();
+    private _providers = new Map<string, RegistryProvider>();
+    private _resolving = new Set<string>();
+
+    /**
+     * Зарегистрировать хранилище или computed под именем
+     * @param name Уникальное имя
+     * @param entry Хранилище или computed
+     * @returns Функция удаления из реестра
+     * @throws Error если имя уже занято
+     */
+    public register<E extends RegistryEntry>(name: string, entry: E): () => void {
+        this.assertFree(name);
+        this._entries.set(name, entry);
+        return () => {
+            if (this._entries.get(name) === entry) {
+                this._entries.delete(name);
+            }
+        };
+    }
+
+    /**
+     * Зарегистрировать фабрику, которая создаст значение при первом обращении по имени
+     * @param name Уникальное имя
+     * @param provider Фабрика, получающая реестр для запроса зависимостей
+     * @returns Функция удаления из реестра
+     * @throws Error если имя уже занято
+     */
+    public provide<E extends RegistryEntry>(
+        name: string,
+        provider: RegistryProvider<E>,
+    ): () => void {
+        this.assertFree(name);
+        this._providers.set(name, provider);
+        return () => this.unregister(name);
+    }
+
+    /**
+     * Проверить, зарегистрировано ли имя
+     * @param name Имя хранилища или computed
+     */
+    public has(name: string): boolean {
+        return this._entries.has(name) || this._providers.has(name);
+    }
+
+    /**
+     * Получить значение по имени, создав его фабрикой при первом обращении
+     * @param name Имя хранилища или computed
+     * @throws Error если имя не зарегистрировано или фабрики зависят друг от друга по кругу
+     */
+    public get<E extends RegistryEntry = Store<any>>(name: string): E {
+        const entry = this._entries.get(name);
+        if (entry) {
+            return entry as E;
+        }
+
+        const provider = this._providers.get(name);
+        if (!provider) {
+            throw new Error(`Store "${name}" is not registered`);
+        }
+        if (this._resolving.has(name)) {
+            throw new Error(`Circular dependency detected while resolving store "${name}"`);
+        }
+
+        this._resolving.add(name);
+        try {
+            const created = provider(this);
+            this._providers.delete(name);
+            this._entries.set(name, created);
+            return created as E;
+        } finally {
+            this._resolving.delete(name);
+        }
+    }
+
+    /**
+     * Имена всех зарегистрированных значений, включая еще не созданные фабриками
+     */
+    public names(): string[] {
+        return [...new Set([...this._entries.keys(), ...this._providers.keys()])];
+    }
+
+    /**
+     * Удалить значение или фабрику из реестра. Само хранилище не изменяется.
+     * @param name Имя хранилища или computed
+     */
+    public unregister(name: string): void {
+        this._entries.delete(name);
+        this._providers.delete(name);
+    }
+
+    /**
+     * Получить копию состояния всех созданных хранилищ
+     * @returns Снимок состояния по именам хранилищ
+     */
+    public snapshotAll(): RegistrySnapshot {
+        const snapshot: RegistrySnapshot = {};
+        this._entries.forEach((entry, name) => {
+            if (entry instanceof Store) {
+                snapshot[name] = entry.cloneState();
+            }
+        });
+        return snapshot;
+    }
+
+    /**
+     * Восстановить состояние хранилищ из снимка атомарно.
+     * Хранилища, созданные фабриками, создаются при необходимости.
+     * Имена, которых нет в реестре, пропускаются. Если валидаторы хотя бы одного
+     * хранилища отклонили состояние, все хранилища остаются прежними.
+     * @param snapshot Снимок, полученный от snapshotAll
+     * @param context Контекст изменения (по умолчанию метка 'hydrate')
+     * @throws StoreValidationError если состояние не прошло валидацию
+     */
+    public hydrateAll(
+        snapshot: RegistrySnapshot,
+        context: UpdateContext = { label: 'hydrate' },
+    ): void {
+        Store.batch(() => {
+            Object.entries(snapshot).forEach(([name, state]) => {
+                if (!this.has(name)) return;
+
+                const entry = this.get<RegistryEntry>(name);
+                if (entry instanceof Store) {
+                    entry.reset(state, context);
+                }
+            });
+        });
+    }
+
+    /**
+     * Горячая замена реализации хранилища. Зарегистрированный экземпляр сохраняет
+     * состояние, подписчиков и ссылки на него, а получает методы, middleware
+     * и валидаторы нового хранилища (см. Store.replaceImplementation).
+     * @param name Имя хранилища
+     * @param next Хранилище с новой реализацией
+     * @returns Зарегистрированный экземпляр с новой реализацией
+     * @throws Error если имя не зарегистрировано или под ним не хранилище
+     */
+    public replace<T extends object>(name: string, next: Store<T>): Store<T> {
+        const current = this.get<RegistryEntry>(name);
+        if (!(current instanceof Store)) {
+            throw new Error(`Entry "${name}" is not a store and cannot be hot replaced`);
+        }
+
+        current.replaceImplementation(next);
+        return current;
+    }
+
+    private assertFree(name: string): void {
+        if (this.has(name)) {
+            throw new Error(`Store "${name}" is already registered`);
+        }
+    }
+}
+
+/**
+ * Общий реестр, в котором mixStores и computed регистрируют результат по умолчанию
+ */
+export const storeRegistry = new StoreRegistry();
@@ -0,0 +1,28 @@
+import type { Store } from '../store';
+import type { ComputedRef } from '../computed';
+import type { StoreState } from '../models';
+import type { StoreRegistry } from './registry';
+
+/** Значение, которое можно зарегистрировать в реестре */
+export type RegistryEntry = Store<any> | ComputedRef<any>;
+
+/**
+ * Фабрика, создающая значение при первом обращении к нему по имени.
+ * Получает реестр, чтобы запросить свои зависимости.
+ */
+export type RegistryProvider<E extends RegistryEntry = RegistryEntry> = (
+    registry: StoreRegistry,
+) => E;
+
+/**
+ * Снимок состояния всех хранилищ реестра по их именам
+ *
+ * @example
+ * ```typescript
+ * const snapshot: RegistrySnapshot = {
+ *   game: { score: 10, level: 2 },
+ *   ui: { isMenuOpen: false }
+ * };
+ * ```
+ */
+export type RegistrySnapshot = Record<string, StoreState>;
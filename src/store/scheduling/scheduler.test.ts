@@ -0,0 +1,161 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Store } from '../store';
+import { effect } from '../effect';
+import { Scheduler } from './scheduler';
+
+const createCounter = (options: ConstructorParameters<typeof Store<{ count: number }>>[1] = {}) =>
+    new Store({ count: 0 }, options);
+
+afterEach(() => {
+    Store.configure({ scheduler: 'microtask' });
+    vi.useRealTimers();
+});
+
+describe('Scheduler', () => {
+    it('runs each job once in priority order on flush', () => {
+        const scheduler = new Scheduler();
+        const calls: string[] = [];
+        const render = () => calls.push('render');
+
+        scheduler.schedule(() => calls.push('analytics'), 'post-render');
+        scheduler.schedule(render);
+        scheduler.schedule(render);
+        scheduler.schedule(() => calls.push('layout'), 'pre-render');
+        scheduler.schedule(() => calls.push('custom'), -200);
+
+        expect(scheduler.pending).toBe(true);
+        scheduler.flush();
+
+        expect(calls).toEqual(['custom', 'layout', 'render', 'analytics']);
+        expect(scheduler.pending).toBe(false);
+    });
+
+    it('runs jobs scheduled during flush in the same pass', () => {
+        const scheduler = new Scheduler();
+        const calls: string[] = [];
+        scheduler.schedule(() => {
+            calls.push('first');
+            scheduler.schedule(() => calls.push('nested'));
+        });
+
+        scheduler.flush();
+
+        expect(calls).toEqual(['first', 'nested']);
+    });
+
+    it('keeps the remaining jobs queued when a job throws', () => {
+        const scheduler = new Scheduler();
+        const next = vi.fn();
+        scheduler.schedule(() => {
+            throw new Error('listener failed');
+        });
+        scheduler.schedule(next);
+
+        expect(() => scheduler.flush()).toThrow('listener failed');
+        expect(next).not.toHaveBeenCalled();
+
+        scheduler.flush();
+        expect(next).toHaveBeenCalledOnce();
+    });
+
+    it('asks the request function to flush once per batch of jobs', () => {
+        const requests: Array<() => void> = [];
+        const scheduler = new Scheduler((flush) => requests.push(flush));
+        const job = vi.fn();
+
+        scheduler.schedule(job);
+        scheduler.schedule(() => undefined);
+        expect(requests).toHaveLength(1);
+
+        requests[0]();
+        expect(job).toHaveBeenCalledOnce();
+    });
+});
+
+describe('Store notifications', () => {
+    it('notifies synchronously with the sync scheduler', () => {
+        const store = createCounter({ scheduler: 'sync' });
+        const listener = vi.fn();
+        store.subscribe(listener);
+
+        store.update(() => ({ count: 1 }));
+
+        expect(listener).toHaveBeenCalledWith({ count: 1 }, { count: 0 });
+    });
+
+    it('notifies once per microtask by default', async () => {
+        const store = createCounter();
+        const listener = vi.fn();
+        store.subscribe(listener);
+
+        store.update(() => ({ count: 1 }));
+        store.update(() => ({ count: 2 }));
+        expect(listener).not.toHaveBeenCalled();
+
+        await Promise.resolve();
+        expect(listener).toHaveBeenCalledOnce();
+    });
+
+    it('notifies once per frame with the animation-frame scheduler', () => {
+        vi.useFakeTimers();
+        const store = createCounter({ scheduler: 'animation-frame' });
+        const listener = vi.fn();
+        store.subscribe(listener);
+
+        store.update(() => ({ count: 1 }));
+        store.update(() => ({ count: 2 }));
+        vi.advanceTimersByTime(16);
+
+        expect(listener).toHaveBeenCalledOnce();
+    });
+
+    it('waits for the game loop with a manual scheduler set globally', () => {
+        const frame = new Scheduler();
+        Store.configure({ scheduler: frame });
+        const store = createCounter();
+        const listener = vi.fn();
+        store.subscribe(listener);
+
+        store.update(() => ({ count: 1 }));
+        expect(listener).not.toHaveBeenCalled();
+
+        frame.flush();
+        expect(listener).toHaveBeenCalledOnce();
+    });
+
+    it('orders listeners of different stores by priority', () => {
+        const frame = new Scheduler();
+        const a = createCounter({ scheduler: frame });
+        const b = createCounter({ scheduler: frame });
+        const calls: string[] = [];
+        a.subscribe(() => calls.push('a:post'), { priority: 'post-render' });
+        b.subscribe(() => calls.push('b:default'));
+        a.subscribe(() => calls.push('a:pre'), { priority: 'pre-render' });
+
+        a.update(() => ({ count: 1 }));
+        b.update(() => ({ count: 1 }));
+        frame.flush();
+
+        expect(calls).toEqual(['a:pre', 'b:default', 'a:post']);
+    });
+
+    it('flushes every pending scheduler with Store.flush', () => {
+        const frame = new Scheduler();
+        const manual = createCounter({ scheduler: frame });
+        const microtask = createCounter();
+        const listener = vi.fn();
+        const run = vi.fn(() => {
+            void microtask.state.count;
+        });
+        manual.subscribe(listener);
+        microtask.subscribe(listener);
+        effect(run, { scheduler: frame });
+
+        manual.update(() => ({ count: 1 }));
+        microtask.update(() => ({ count: 1 }));
+        Store.flush();
+
+        expect(listener).toHaveBeenCalledTimes(2);
+        expect(run).toHaveBeenCalledTimes(2);
+    });
+});
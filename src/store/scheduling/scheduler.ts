@@ -0,0 +1,165 @@
+import {
+    FlushRequest,
+    NotificationScheduler,
+    SchedulerJob,
+    SchedulerPhase,
+    SchedulerPriority,
+} from './types';
+
+/** Задача в очереди планировщика */
+interface IQueuedJob {
+    job: SchedulerJob;
+    priority: number;
+}
+
+const PHASE_PRIORITIES: Record<SchedulerPhase, number> = {
+    'pre-render': -100,
+    default: 0,
+    'post-render': 100,
+};
+
+/** Планировщики, в очереди которых есть невыполненные задачи */
+const pendingSchedulers = new Set<Scheduler>();
+
+/**
+ * Очередь задач, которые выполняются вместе в одном flush.
+ *
+ * Возможности:
+ * - Повторно запланированная задача выполняется один раз
+ * - Порядок выполнения по приоритету, при равном приоритете - по порядку планирования
+ * - Задачи, запланированные во время flush, выполняются в том же проходе
+ * - Время flush определяет функция запроса; без нее flush вызывается вручную
+ *
+ * @example
+ * ```typescript
+ * // Уведомления один раз за кадр игрового цикла
+ * const frameScheduler = new Scheduler();
+ * Store.configure({ scheduler: frameScheduler });
+ *
+ * function gameLoop() {
+ *   systems.update();
+ *   frameScheduler.flush();
+ *   renderer.render();
+ *   requestAnimationFrame(gameLoop);
+ * }
+ * ```
+ */
+export class Scheduler {
+    private _queue: IQueuedJob[] = [];
+    private _queued = new Set<SchedulerJob>();
+    private _flushing = false;
+    private _requested = false;
+
+    /**
+     * @param _request Запрос выполнения накопленных задач. Если не указан,
+     * задачи выполняются только при вызове flush
+     */
+    constructor(private _request?: FlushRequest) {}
+
+    /**
+     * Есть ли невыполненные задачи
+     */
+    public get pending(): boolean {
+        return this._queue.length > 0;
+    }
+
+    /**
+     * Запланировать задачу. Если задача уже в очереди, она не добавляется повторно
+     * @param job Задача
+     * @param priority Фаза или числовой приоритет (по умолчанию 'default')
+     */
+    public schedule(job: SchedulerJob, priority: SchedulerPriority = 'default'): void {
+        if (this._queued.has(job)) return;
+
+        const value = resolvePriority(priority);
+        let index = this._queue.length;
+        while (index > 0 && this._queue[index - 1].priority > value) {
+            index--;
+        }
+
+        this._queue.splice(index, 0, { job, priority: value });
+        this._queued.add(job);
+        pendingSchedulers.add(this);
+        this.request();
+    }
+
+    /**
+     * Выполнить все накопленные задачи. Вызов во время flush ничего не делает:
+     * новые задачи выполнятся в текущем проходе. Если задача выбросила ошибку,
+     * оставшиеся задачи остаются в очереди и планируются заново.
+     */
+    public flush(): void {
+        if (this._flushing) return;
+
+        this._flushing = true;
+        this._requested = false;
+        try {
+            while (this._queue.length > 0) {
+                const { job } = this._queue.shift()!;
+                this._queued.delete(job);
+                job();
+            }
+        } finally {
+            this._flushing = false;
+            if (this._queue.length > 0) {
+                this.request();
+            } else {
+                pendingSchedulers.delete(this);
+            }
+        }
+    }
+
+    private request(): void {
+        if (this._flushing || this._requested || !this._request) return;
+
+        this._requested = true;
+        this._request(() => this.flush());
+    }
+}
+
+/** Планировщик, выполняющий задачи сразу */
+export const syncScheduler = new Scheduler((flush) => flush());
+
+/** Планировщик, выполняющий задачи в микрозадаче после всех синхронных изменений */
+export const microtaskScheduler = new Scheduler((flush) => queueMicrotask(flush));
+
+/**
+ * Планировщик, выполняющий задачи перед отрисовкой следующего кадра.
+ * Вне браузера кадр заменяется таймером на 16 мс
+ */
+export const animationFrameScheduler = new Scheduler((flush) => {
+    if (typeof requestAnimationFrame === 'function') {
+        requestAnimationFrame(() => flush());
+    } else {
+        setTimeout(flush, 16);
+    }
+});
+
+/**
+ * Выполнить накопленные задачи всех планировщиков, включая ручные.
+ * Полезно в тестах, чтобы не ждать микрозадачу или кадр
+ */
+export function flushSchedulers(): void {
+    for (const scheduler of pendingSchedulers) {
+        scheduler.flush();
+    }
+}
+
+/**
+ * Получить экземпляр планировщика по имени
+ * @param scheduler Имя встроенного планировщика или экземпляр
+ */
+export function resolveScheduler(scheduler: NotificationScheduler): Scheduler {
+    if (scheduler === 'sync') return syncScheduler;
+    if (scheduler === 'microtask') return microtaskScheduler;
+    if (scheduler === 'animation-frame') return animationFrameScheduler;
+    return scheduler;
+}
+
+/**
+ * Получить числовой приоритет фазы
+ * @param priority Фаза или числовой приоритет
+ */
+export function resolvePriority(priority: SchedulerPriority): number {
+    return typeof priority === 'number' ? priority : PHASE_PRIORITIES[priority];
+}
@@ -0,0 +1,38 @@
+import type { Scheduler } from './scheduler';
+
+/** Задача, выполняемая планировщиком */
+export type SchedulerJob = () => void;
+
+/**
+ * Запрос выполнения накопленных задач: получает функцию flush и решает,
+ * когда ее вызвать
+ *
+ * @example
+ * ```typescript
+ * const request: FlushRequest = flush => setTimeout(flush, 0);
+ * ```
+ */
+export type FlushRequest = (flush: () => void) => void;
+
+/**
+ * Фаза выполнения задачи внутри одного flush:
+ * - 'pre-render' - до отрисовки, например для подготовки данных кадра
+ * - 'default' - обычные подписчики
+ * - 'post-render' - после отрисовки, например для аналитики и сохранения
+ */
+export type SchedulerPhase = 'pre-render' | 'default' | 'post-render';
+
+/**
+ * Приоритет задачи: фаза или число. Задачи с меньшим числом выполняются раньше,
+ * фазы соответствуют числам -100, 0 и 100
+ */
+export type SchedulerPriority = SchedulerPhase | number;
+
+/**
+ * Способ уведомления подписчиков:
+ * - 'sync' - сразу при изменении
+ * - 'microtask' - один раз в микрозадаче после всех синхронных изменений
+ * - 'animation-frame' - один раз перед отрисовкой кадра (requestAnimationFrame)
+ * - экземпляр Scheduler - например, ручной планировщик, который вызывает игровой цикл
+ */
+export type NotificationScheduler = 'sync' | 'microtask' | 'animation-frame' | Scheduler;
@@ -0,0 +1,154 @@
+import { describe, expect, it } from 'vitest';
+import { Store } from '../store';
+import { jsonClassCodec, Serializer } from './serializer';
+
+class Vector2 {
+    constructor(
+        public x: number,
+        public y: number,
+    ) {}
+
+    public length(): number {
+        return Math.hypot(this.x, this.y);
+    }
+
+    public toJSON() {
+        return { x: this.x, y: this.y };
+    }
+
+    public static fromJSON(data: { x: number; y: number }): Vector2 {
+        return new Vector2(data.x, data.y);
+    }
+}
+
+const createRichState = () => ({
+    visited: new Set(['forest']),
+    scores: new Map([['alice', 10]]),
+    startedAt: new Date(1_700_000_000_000),
+    heights: new Float32Array([0.5, 1.5]),
+    pattern: /ab+c/gi,
+    special: [undefined, NaN, Infinity, -0, 10n],
+});
+
+describe('Serializer', () => {
+    it('clones built-in types and typed arrays', () => {
+        const serializer = new Serializer();
+        const state = createRichState();
+
+        const copy = serializer.clone(state);
+
+        expect(copy).toEqual(state);
+        expect(copy.visited).not.toBe(state.visited);
+        expect(copy.scores).toBeInstanceOf(Map);
+        expect(copy.heights).toBeInstanceOf(Float32Array);
+        expect(copy.startedAt).not.toBe(state.startedAt);
+    });
+
+    it('round-trips built-in and special values through JSON', () => {
+        const serializer = new Serializer();
+        const state = createRichState();
+
+        const restored = serializer.parse<typeof state>(serializer.stringify(state));
+
+        expect(restored).toEqual(state);
+        expect(Object.is(restored.special[3], -0)).toBe(true);
+        expect(restored.special[4]).toBe(10n);
+    });
+
+    it('keeps cyclic and shared references', () => {
+        const serializer = new Serializer();
+        const shared = { name: 'shared' };
+        const node: { self?: unknown; items: unknown[] } = { items: [shared, shared] };
+        node.self = node;
+
+        const copy = serializer.clone(node);
+        const restored = serializer.decode<typeof node>(serializer.encode(node));
+
+        for (const result of [copy, restored]) {
+            expect(result.self).toBe(result);
+            expect(result.items[0]).toBe(result.items[1]);
+            expect(result.items[0]).not.toBe(shared);
+        }
+    });
+
+    it('escapes objects that use the type key', () => {
+        const serializer = new Serializer();
+        const value = { $type: 'Map', value: 1 };
+
+        expect(serializer.parse(serializer.stringify(value))).toEqual(value);
+    });
+
+    it('uses registered class codecs and keeps prototypes without them', () => {
+        const serializer = new Serializer();
+        const state = { spawn: new Vector2(3, 4) };
+
+        expect(serializer.clone(state).spawn.length()).toBe(5);
+        expect(serializer.parse(serializer.stringify(state))).toEqual({ spawn: { x: 3, y: 4 } });
+
+        const unregister = serializer.register(jsonClassCodec(Vector2));
+        const restored = serializer.parse<typeof state>(serializer.stringify(state));
+        expect(restored.spawn).toBeInstanceOf(Vector2);
+        expect(restored.spawn.length()).toBe(5);
+
+        unregister();
+        expect(() => serializer.decode({ $type: 'Vector2', value: { x: 1, y: 1 } })).toThrow(
+            'Unknown serialized type "Vector2"',
+        );
+    });
+
+    it('rejects duplicate and built-in codec names', () => {
+        const serializer = new Serializer();
+        serializer.register(jsonClassCodec(Vector2));
+
+        expect(() => serializer.register(jsonClassCodec(Vector2))).toThrow(
+            'Codec "Vector2" is already registered',
+        );
+        expect(() => serializer.register(jsonClassCodec(Vector2, 'Map'))).toThrow(
+            'Codec "Map" is already registered',
+        );
+    });
+
+    it('throws for references to unknown objects', () => {
+        expect(() => new Serializer().decode({ $type: 'ref', value: 3 })).toThrow(
+            'Cannot resolve reference to object #3 while decoding',
+        );
+    });
+});
+
+describe('Store serialization', () => {
+    it('keeps types in cloneState and clonePrevState', () => {
+        const store = new Store(createRichState());
+
+        store.update((state) => ({ visited: new Set([...state.visited, 'cave']) }));
+
+        expect(store.cloneState().visited).toEqual(new Set(['forest', 'cave']));
+        expect(store.clonePrevState().visited).toEqual(new Set(['forest']));
+        expect(store.clonePrevState().scores).toBeInstanceOf(Map);
+    });
+
+    it('saves and restores the whole store through toJSON and fromJSON', () => {
+        const serializer = new Serializer();
+        serializer.register(jsonClassCodec(Vector2));
+        const store = new Store({ spawn: new Vector2(1, 2), seen: new Set([1]) }, { serializer });
+
+        const text = JSON.stringify(store);
+        const restored = new Store(
+            { spawn: new Vector2(0, 0), seen: new Set<number>() },
+            { serializer },
+        );
+        restored.fromJSON(text);
+
+        expect(restored.cloneState().spawn).toEqual(new Vector2(1, 2));
+        expect(restored.cloneState().seen).toEqual(new Set([1]));
+    });
+
+    it('validates state restored with fromJSON', () => {
+        const store = new Store(
+            { level: 1 },
+            { validators: [(update) => (update.level === 0 ? 'Level must be positive' : true)] },
+        );
+
+        expect(() => store.fromJSON('{"level":0}')).toThrow('Level must be positive');
+        expect(store.state.level).toBe(1);
+    });
+});
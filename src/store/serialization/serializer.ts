@@ -0,0 +1,451 @@
+import { ClassConstructor, IClassCodec, JsonClass } from './types';
+
+/** Поле, в котором хранится тип закодированного значения */
+const TYPE_KEY = '$type';
+
+/** Закодированное значение встроенного типа, класса или ссылка на уже закодированный объект */
+interface ITaggedValue {
+    [TYPE_KEY]: string;
+    value?: unknown;
+}
+
+type TypedArray =
+    | Int8Array
+    | Uint8Array
+    | Uint8ClampedArray
+    | Int16Array
+    | Uint16Array
+    | Int32Array
+    | Uint32Array
+    | Float32Array
+    | Float64Array
+    | BigInt64Array
+    | BigUint64Array;
+
+/** Элементы типизированного массива: number или bigint в зависимости от его типа */
+type TypedArrayValues = Iterable<number> & Iterable<bigint>;
+
+const TYPED_ARRAYS: Record<string, new (values: TypedArrayValues) => TypedArray> = {
+    Int8Array,
+    Uint8Array,
+    Uint8ClampedArray,
+    Int16Array,
+    Uint16Array,
+    Int32Array,
+    Uint32Array,
+    Float32Array,
+    Float64Array,
+    BigInt64Array,
+    BigUint64Array,
+};
+
+const BUILT_IN_TYPES = new Set([
+    'undefined',
+    'number',
+    'bigint',
+    'ref',
+    'object',
+    'Date',
+    'RegExp',
+    'Map',
+    'Set',
+    'ArrayBuffer',
+    'DataView',
+    ...Object.keys(TYPED_ARRAYS),
+]);
+
+function isTagged(value: unknown): value is ITaggedValue {
+    return (
+        value !== null &&
+        typeof value === 'object' &&
+        !Array.isArray(value) &&
+        Object.prototype.hasOwnProperty.call(value, TYPE_KEY)
+    );
+}
+
+function isTypedArray(value: unknown): value is TypedArray {
+    return ArrayBuffer.isView(value) && !(value instanceof DataView);
+}
+
+/**
+ * Копирование и сериализация состояния с поддержкой типов, которые теряются
+ * при обычном копировании и JSON.
+ *
+ * Возможности:
+ * - Map, Set, Date, RegExp, ArrayBuffer, DataView и типизированные массивы
+ * - undefined, NaN, Infinity, -0 и BigInt при сериализации в JSON
+ * - Циклические и повторяющиеся ссылки сохраняются
+ * - Кодеки пользовательских классов
+ *
+ * При копировании экземпляры классов без кодека сохраняют прототип, а при
+ * сериализации превращаются в обычные объекты.
+ *
+ * @example
+ * ```typescript
+ * const serializer = new Serializer();
+ * serializer.register(jsonClassCodec(Vector2));
+ *
+ * const state = { visited: new Set(['forest']), spawn: new Vector2(1, 2) };
+ * const copy = serializer.clone(state);
+ *
+ * const text = serializer.stringify(state);
+ * const restored = serializer.parse<typeof state>(text);
+ * ```
+ */
+export class Serializer {
+    private _codecs: IClassCodec[] = [];
+
+    /**
+     * Зарегистрировать кодек пользовательского класса
+     * @param codec Кодек класса
+     * @returns Функция удаления кодека
+     * @throws Error если имя типа уже занято
+     */
+    public register<C, D>(codec: IClassCodec<C, D>): () => void {
+        if (
+            BUILT_IN_TYPES.has(codec.name) ||
+            this._codecs.some((item) => item.name === codec.name)
+        ) {
+            throw new Error(`Codec "${codec.name}" is already registered`);
+        }
+
+        this._codecs.push(codec);
+        return () => {
+            this._codecs = this._codecs.filter((item) => item !== codec);
+        };
+    }
+
+    /**
+     * Глубоко скопировать значение
+     * @param value Копируемое значение
+     * @returns Копия с сохранением типов и ссылок между объектами
+     */
+    public clone<V>(value: V): V {
+        const copies = new Map<object, unknown>();
+
+        const clone = <U>(value: U): U => {
+            if (value === null || typeof value !== 'object') {
+                return value;
+            }
+
+            const source = value as object;
+            if (copies.has(source)) {
+                return copies.get(source) as U;
+            }
+
+            const codec = this.findCodec(source);
+            if (codec) {
+                const copy = codec.clone
+                    ? codec.clone(source, clone)
+                    : codec.decode(clone(codec.encode(source)));
+                return this.remember(copies, source, copy);
+            }
+
+            if (Array.isArray(source)) {
+                const copy: unknown[] = [];
+                copies.set(source, copy);
+                source.forEach((item) => copy.push(clone(item)));
+                return copy as U;
+            }
+
+            if (source instanceof Date) {
+                return this.remember(copies, source, new Date(source.getTime()));
+            }
+
+            if (source instanceof RegExp) {
+                return this.remember(copies, source, new RegExp(source.source, source.flags));
+            }
+
+            if (source instanceof Map) {
+                const copy = new Map();
+                copies.set(source, copy);
+                source.forEach((item, key) => copy.set(clone(key), clone(item)));
+                return copy as U;
+            }
+
+            if (source instanceof Set) {
+                const copy = new Set();
+                copies.set(source, copy);
+                source.forEach((item) => copy.add(clone(item)));
+                return copy as U;
+            }
+
+            if (source instanceof ArrayBuffer) {
+                return this.remember(copies, source, source.slice(0));
+            }
+
+            if (source instanceof DataView) {
+                const buffer = source.buffer.slice(
+                    source.byteOffset,
+                    source.byteOffset + source.byteLength,
+                );
+                return this.remember(copies, source, new DataView(buffer));
+            }
+
+            if (isTypedArray(source)) {
+                return this.remember(copies, source, source.slice());
+            }
+
+            const copy: Record<string, unknown> = Object.create(Object.getPrototypeOf(source));
+            copies.set(source, copy);
+            for (const key in source) {
+                if (Object.prototype.hasOwnProperty.call(source, key)) {
+                    try {
+                        copy[key] = clone(source[key as keyof typeof source]);
+                    } catch (e) {
+                        console.warn(`Failed to clone property ${key}`, e);
+                        copy[key] = source[key as keyof typeof source];
+                    }
+                }
+            }
+            return copy as U;
+        };
+
+        return clone(value);
+    }
+
+    /**
+     * Преобразовать значение в данные, которые можно передать в JSON.stringify
+     * @param value Кодируемое значение
+     * @returns Данные, из которых decode восстановит значение
+     */
+    public encode(value: unknown): unknown {
+        // Объекты нумеруются в порядке обхода, decode нумерует их в том же порядке
+        const ids = new Map<object, number>();
+
+        const encode = (value: unknown): unknown => {
+            if (value === undefined) {
+                return { [TYPE_KEY]: 'undefined' };
+            }
+            if (typeof value === 'number') {
+                return Number.isFinite(value) && !Object.is(value, -0)
+                    ? value
+                    : { [TYPE_KEY]: 'number', value: Object.is(value, -0) ? '-0' : String(value) };
+            }
+            if (typeof value === 'bigint') {
+                return { [TYPE_KEY]: 'bigint', value: value.toString() };
+            }
+            if (value === null || typeof value !== 'object') {
+                return value;
+            }
+
+            const id = ids.get(value);
+            if (id !== undefined) {
+                return { [TYPE_KEY]: 'ref', value: id };
+            }
+            ids.set(value, ids.size);
+
+            const codec = this.findCodec(value);
+            if (codec) {
+                return { [TYPE_KEY]: codec.name, value: encode(codec.encode(value)) };
+            }
+            if (Array.isArray(value)) {
+                return value.map(encode);
+            }
+            if (value instanceof Date) {
+                return { [TYPE_KEY]: 'Date', value: value.getTime() };
+            }
+            if (value instanceof RegExp) {
+                return { [TYPE_KEY]: 'RegExp', value: [value.source, value.flags] };
+            }
+            if (value instanceof Map) {
+                return {
+                    [TYPE_KEY]: 'Map',
+                    value: [...value].map(([key, item]) => [encode(key), encode(item)]),
+                };
+            }
+            if (value instanceof Set) {
+                return { [TYPE_KEY]: 'Set', value: [...value].map(encode) };
+            }
+            if (value instanceof ArrayBuffer) {
+                return { [TYPE_KEY]: 'ArrayBuffer', value: Array.from(new Uint8Array(value)) };
+            }
+            if (value instanceof DataView) {
+                const bytes = new Uint8Array(value.buffer, value.byteOffset, value.byteLength);
+                return { [TYPE_KEY]: 'DataView', value: Array.from(bytes) };
+            }
+            if (isTypedArray(value)) {
+                return {
+                    [TYPE_KEY]: value.constructor.name,
+                    value: Array.from(value as ArrayLike<number | bigint>, encode),
+                };
+            }
+
+            const fields: Record<string, unknown> = {};
+            for (const key in value) {
+                if (Object.prototype.hasOwnProperty.call(value, key)) {
+                    fields[key] = encode(value[key as keyof typeof value]);
+                }
+            }
+            return TYPE_KEY in fields ? { [TYPE_KEY]: 'object', value: fields } : fields;
+        };
+
+        return encode(value);
+    }
+
+    /**
+     * Восстановить значение из данных, полученных от encode
+     * @param data Закодированные данные
+     * @returns Восстановленное значение
+     * @throws Error если тип не известен или ссылка указывает на объект, который еще не создан
+     */
+    public decode<V = unknown>(data: unknown): V {
+        const objects: object[] = [];
+
+        const reserve = (): number => {
+            objects.push(undefined as unknown as object);
+            return objects.length - 1;
+        };
+
+        const fill = <O extends object>(id: number, object: O): O => {
+            objects[id] = object;
+            return object;
+        };
+
+        const decodeFields = (fields: Record<string, unknown>, target: Record<string, unknown>) => {
+            for (const key in fields) {
+                target[key] = decode(fields[key]);
+            }
+            return target;
+        };
+
+        const decode = (data: unknown): unknown => {
+            if (data === null || typeof data !== 'object') {
+                return data;
+            }
+            if (Array.isArray(data)) {
+                const array = fill(reserve(), [] as unknown[]);
+                data.forEach((item) => array.push(decode(item)));
+                return array;
+            }
+            if (!isTagged(data)) {
+                return decodeFields(data as Record<string, unknown>, fill(reserve(), {}));
+            }
+
+            const type = data[TYPE_KEY];
+            const value = data.value;
+            switch (type) {
+                case 'undefined':
+                    return undefined;
+                case 'number':
+                    return Number(value);
+                case 'bigint':
+                    return BigInt(value as string);
+                case 'ref': {
+                    const object = objects[value as number];
+                    if (object === undefined) {
+                        throw new Error(
+                            `Cannot resolve reference to object #${value} while decoding`,
+                        );
+                    }
+                    return object;
+                }
+                case 'object':
+                    return decodeFields(value as Record<string, unknown>, fill(reserve(), {}));
+                case 'Date':
+                    return fill(reserve(), new Date((value as number | undefined) ?? NaN));
+                case 'RegExp': {
+                    const [source, flags] = value as [string, string];
+                    return fill(reserve(), new RegExp(source, flags));
+                }
+                case 'Map': {
+                    const map = fill(reserve(), new Map());
+                    (value as Array<[unknown, unknown]>).forEach(([key, item]) =>
+                        map.set(decode(key), decode(item)),
+                    );
+                    return map;
+                }
+                case 'Set': {
+                    const set = fill(reserve(), new Set());
+                    (value as unknown[]).forEach((item) => set.add(decode(item)));
+                    return set;
+                }
+                case 'ArrayBuffer':
+                    return fill(reserve(), new Uint8Array(value as number[]).buffer);
+                case 'DataView':
+                    return fill(reserve(), new DataView(new Uint8Array(value as number[]).buffer));
+            }
+
+            const TypedArrayType = TYPED_ARRAYS[type];
+            if (TypedArrayType) {
+                const id = reserve();
+                return fill(
+                    id,
+                    new TypedArrayType(
+                        (value as unknown[]).map(decode) as unknown as TypedArrayValues,
+                    ),
+                );
+            }
+
+            const codec = this._codecs.find((item) => item.name === type);
+            if (!codec) {
+                throw new Error(`Unknown serialized type "${type}"`);
+            }
+            const id = reserve();
+            return fill(id, codec.decode(decode(value)) as object);
+        };
+
+        return decode(data) as V;
+    }
+
+    /**
+     * Сериализовать значение в строку JSON
+     * @param value Сериализуемое значение
+     */
+    public stringify(value: unknown): string {
+        return JSON.stringify(this.encode(value));
+    }
+
+    /**
+     * Восстановить значение из строки, полученной от stringify
+     * @param text Строка JSON
+     */
+    public parse<V = unknown>(text: string): V {
+        return this.decode<V>(JSON.parse(text));
+    }
+
+    private findCodec(value: object): IClassCodec | undefined {
+        return this._codecs.find((codec) => value instanceof codec.type);
+    }
+
+    private remember<U>(copies: Map<object, unknown>, source: object, copy: unknown): U {
+        copies.set(source, copy);
+        return copy as U;
+    }
+}
+
+/**
+ * Создать кодек для класса с методом toJSON и статическим методом fromJSON
+ *
+ * @example
+ * ```typescript
+ * class Vector2 {
+ *   constructor(public x: number, public y: number) {}
+ *   toJSON() { return { x: this.x, y: this.y }; }
+ *   static fromJSON(data: { x: number; y: number }) { return new Vector2(data.x, data.y); }
+ * }
+ *
+ * defaultSerializer.register(jsonClassCodec(Vector2));
+ * ```
+ *
+ * @param type Класс с toJSON и fromJSON
+ * @param name Имя типа в сериализованных данных (по умолчанию имя класса)
+ * @returns Кодек класса
+ */
+export function jsonClassCodec<C extends { toJSON(): D }, D>(
+    type: JsonClass<C, D>,
+    name: string = type.name,
+): IClassCodec<C, D> {
+    return {
+        name,
+        type: type as ClassConstructor<C>,
+        encode: (value) => value.toJSON(),
+        decode: (data) => type.fromJSON(data),
+    };
+}
+
+/**
+ * Сериализатор, который хранилища используют по умолчанию.
+ * Кодеки, зарегистрированные в нем, действуют для всех хранилищ без своего сериализатора.
+ */
+export const defaultSerializer = new Serializer();
@@ -0,0 +1,46 @@
+/** Конструктор класса, экземпляры которого обрабатывает кодек */
+export type ClassConstructor<C> = abstract new (...args: never[]) => C;
+
+/**
+ * Кодек пользовательского класса: как копировать и сериализовать его экземпляры.
+ * Экземпляры определяются через instanceof, поэтому кодек подкласса нужно
+ * регистрировать раньше кодека базового класса.
+ *
+ * @example
+ * ```typescript
+ * const vectorCodec: IClassCodec<Vector2, [number, number]> = {
+ *   name: 'Vector2',
+ *   type: Vector2,
+ *   encode: vector => [vector.x, vector.y],
+ *   decode: ([x, y]) => new Vector2(x, y)
+ * };
+ * ```
+ *
+ * @template C Тип экземпляра класса
+ * @template D Тип данных, в которые кодируется экземпляр
+ */
+export interface IClassCodec<C = unknown, D = unknown> {
+    /** Уникальное имя типа в сериализованных данных */
+    name: string;
+    type: ClassConstructor<C>;
+    /** Преобразовать экземпляр в данные, которые сериализуются рекурсивно */
+    encode(value: C): D;
+    /** Создать экземпляр из данных */
+    decode(data: D): C;
+    /**
+     * Скопировать экземпляр. По умолчанию копия создается через encode и decode
+     * @param value Копируемый экземпляр
+     * @param clone Функция глубокого копирования вложенных значений
+     */
+    clone?(value: C, clone: <V>(value: V) => V): C;
+}
+
+/**
+ * Класс, который сам описывает свою сериализацию через toJSON и статический fromJSON
+ *
+ * @template C Тип экземпляра класса
+ * @template D Тип данных, которые возвращает toJSON
+ */
+export type JsonClass<C extends { toJSON(): D }, D> = ClassConstructor<C> & {
+    fromJSON(data: D): C;
+};
@@ -0,0 +1,139 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Store } from './store';
+import { linkStores } from './store-link';
+import { mixStores } from './store-mixer';
+import { rangeValidator } from './validators';
+
+interface IUiState {
+    hp: number;
+    isLoading: boolean;
+}
+
+interface IGameState {
+    player: { hp: number; name: string };
+    isProcessing: boolean;
+}
+
+function createStores() {
+    const ui = new Store<IUiState>({ hp: 0, isLoading: false });
+    const game = new Store<IGameState>({ player: { hp: 100, name: 'A' }, isProcessing: false });
+    return { ui, game };
+}
+
+const mapping = {
+    mapFromSource: (game: IGameState) => ({ hp: game.player.hp, isLoading: game.isProcessing }),
+    mapToSource: (ui: IUiState) => ({ isProcessing: ui.isLoading }),
+};
+
+describe('linkStores', () => {
+    it('syncs the target from the source on link', () => {
+        const { ui, game } = createStores();
+
+        linkStores({ targetStore: ui, sourceStore: game, ...mapping });
+
+        expect(ui.state).toEqual({ hp: 100, isLoading: false });
+    });
+
+    it('keeps stores of different shapes in sync in both directions', () => {
+        const { ui, game } = createStores();
+        linkStores({ targetStore: ui, sourceStore: game, ...mapping });
+
+        game.update((state) => ({ player: { ...state.player, hp: 90 } }));
+        expect(ui.state.hp).toBe(90);
+
+        ui.update(() => ({ isLoading: true }));
+        expect(game.state.isProcessing).toBe(true);
+
+        game.reset({ player: { hp: 50, name: 'B' }, isProcessing: false });
+        expect(ui.state).toEqual({ hp: 50, isLoading: false });
+    });
+
+    it('passes the label on and does not send changes back', () => {
+        const { ui, game } = createStores();
+        linkStores({ targetStore: ui, sourceStore: game, ...mapping });
+        const gameCommits = vi.fn();
+        const uiCommits = vi.fn();
+        game.onCommit(gameCommits);
+        ui.onCommit(uiCommits);
+
+        game.update(() => ({ isProcessing: true }), { label: 'start' });
+        game.update((state) => ({ player: { ...state.player, name: 'C' } }));
+
+        expect(gameCommits).toHaveBeenCalledTimes(2);
+        expect(uiCommits).toHaveBeenCalledOnce();
+        expect(uiCommits.mock.calls[0][2]).toEqual({ label: 'start' });
+    });
+
+    it('rejects changes the linked store validators would reject', () => {
+        const { ui, game } = createStores();
+        ui.addValidator(rangeValidator<IUiState>('hp', { min: 0 }));
+        linkStores({ targetStore: ui, sourceStore: game, ...mapping });
+
+        expect(() => game.update((state) => ({ player: { ...state.player, hp: -10 } }))).toThrow(
+            'hp must be at least 0',
+        );
+
+        expect(game.state.player.hp).toBe(100);
+        expect(ui.state.hp).toBe(100);
+    });
+
+    it('rejects changes that fail the link validate function', () => {
+        const { ui, game } = createStores();
+        linkStores({
+            targetStore: ui,
+            sourceStore: game,
+            ...mapping,
+            validate: (target, source) =>
+                !(target.isLoading && source.player.hp < 10) || 'Cannot load while dying',
+        });
+        game.update((state) => ({ player: { ...state.player, hp: 5 } }));
+
+        expect(() => ui.update(() => ({ isLoading: true }))).toThrow('Cannot load while dying');
+        expect(ui.state.isLoading).toBe(false);
+        expect(game.state.isProcessing).toBe(false);
+    });
+
+    it('stops syncing and validating after unlink', () => {
+        const { ui, game } = createStores();
+        const link = linkStores({
+            targetStore: ui,
+            sourceStore: game,
+            ...mapping,
+            validate: () => 'Always invalid',
+        });
+
+        link.unlink();
+        game.update((state) => ({ player: { ...state.player, hp: 1 } }));
+        ui.update(() => ({ isLoading: true }));
+
+        expect(ui.state.hp).toBe(100);
+        expect(game.state.isProcessing).toBe(false);
+    });
+});
+
+describe('mixStores links', () => {
+    it('links the mixed store with a store of another shape', () => {
+        const game = new Store({ score: 0 });
+        const settings = new Store({ volume: 5 });
+        const hud = new Store({ display: { score: 0, volume: 0 } });
+        const mixed = mixStores([game, settings], {
+            links: [
+                {
+                    store: hud,
+                    mapFrom: (state) => ({ display: { score: state.score, volume: state.volume } }),
+                    mapTo: (state) => ({ volume: state.display.volume }),
+                },
+            ],
+        });
+
+        game.update(() => ({ score: 7 }));
+        expect(hud.state.display).toEqual({ score: 7, volume: 5 });
+
+        hud.update((state) => ({ display: { ...state.display, volume: 9 } }));
+        expect(settings.state.volume).toBe(9);
+
+        mixed.cleanup();
+        game.update(() => ({ score: 8 }));
+        expect(hud.state.display.score).toBe(7);
+    });
+});
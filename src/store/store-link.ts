@@ -0,0 +1,177 @@
+import { Store } from './store';
+import { deepEqual } from './equality';
+import { StoreValidationError } from './errors';
+import { IStoreLinkConfig, StoreState, UpdateContext, ValidationIssue } from './models';
+import { stateValidator } from './validators';
+
+export interface StoreLinkRef {
+    /** Отключить синхронизацию и удалить валидаторы связи */
+    unlink: () => void;
+}
+
+/**
+ * Оставить только поля, значения которых отличаются от текущих
+ */
+function diffWith<S extends StoreState>(current: S, mapped: Partial<S>): Partial<S> | null {
+    const changes: Partial<S> = {};
+    let changed = false;
+    for (const key in mapped) {
+        if (!deepEqual(current[key], mapped[key])) {
+            changes[key] = mapped[key];
+            changed = true;
+        }
+    }
+    return changed ? changes : null;
+}
+
+/**
+ * Проверить, что связанное хранилище примет изменение, полученное через отображение
+ * @returns Список нарушений валидаторов связанного хранилища
+ */
+function checkLinked<S extends StoreState>(store: Store<S>, mapped: Partial<S>): ValidationIssue[] {
+    const current = store.rawState;
+    const changes = diffWith(current, mapped);
+    if (!changes) return [];
+
+    try {
+        store.validateUpdate(changes);
+        store.validateState({ ...current, ...changes }, current, changes);
+        return [];
+    } catch (error) {
+        if (error instanceof StoreValidationError) {
+            return error.issues;
+        }
+        throw error;
+    }
+}
+
+/**
+ * Связывает два хранилища с разной структурой состояния через функции отображения.
+ *
+ * Возможности:
+ * - Двунаправленная синхронизация для всех способов изменения
+ * - Начальная синхронизация: целевое хранилище получает состояние из исходного
+ * - Защита от циклов: изменение, пришедшее по связи, не отправляется обратно,
+ *   а совпадающие с текущими значения не применяются
+ * - Проверка связи: изменение одного хранилища отклоняется, если его отображение
+ *   не проходит валидаторы другого хранилища или функцию validate
+ *
+ * Отображенные изменения применяются через update, поэтому проходят middleware
+ * связанного хранилища. Значения полей сравниваются через deepEqual.
+ *
+ * @example
+ * ```typescript
+ * const uiStore = new Store<UIState>({ hp: 100, isLoading: false });
+ * const gameStore = new Store<GameState>({ player: { hp: 100 }, isProcessing: false });
+ *
+ * const link = linkStores({
+ *   targetStore: uiStore,
+ *   sourceStore: gameStore,
+ *   mapFromSource: game => ({ hp: game.player.hp, isLoading: game.isProcessing }),
+ *   mapToSource: ui => ({ isProcessing: ui.isLoading }),
+ *   validate: (ui, game) => ui.hp === game.player.hp || 'HP is out of sync'
+ * });
+ *
+ * gameStore.update(s => ({ player: { ...s.player, hp: 90 } }));
+ * console.log(uiStore.state.hp); // 90
+ *
+ * link.unlink();
+ * ```
+ *
+ * @param config - Связываемые хранилища и функции отображения
+ * @returns Объект StoreLinkRef для отключения связи
+ */
+export function linkStores<T extends StoreState, K extends StoreState>(
+    config: IStoreLinkConfig<T, K>,
+): StoreLinkRef {
+    const { targetStore, sourceStore, mapFromSource, mapToSource } = config;
+    let propagating = false;
+    let checking = false;
+
+    const validatePair = (target: T, source: K): ValidationIssue[] => {
+        const result = config.validate ? config.validate(target, source) : true;
+        if (result === true) return [];
+        if (Array.isArray(result)) return result;
+        return [{ rule: 'link', message: result }];
+    };
+
+    // Валидаторы другого хранилища включают валидатор этой же связи, поэтому
+    // во время проверки он пропускается
+    const check = <S extends StoreState>(store: Store<S>, mapped: Partial<S>) => {
+        checking = true;
+        try {
+            return checkLinked(store, mapped);
+        } finally {
+            checking = false;
+        }
+    };
+
+    const removeValidators = [
+        sourceStore.addValidator(
+            stateValidator<K>((next) => {
+                if (propagating || checking) return true;
+
+                const mapped = mapFromSource(next);
+                const issues = [
+                    ...check(targetStore, mapped),
+                    ...validatePair({ ...targetStore.rawState, ...mapped }, next),
+                ];
+                return issues.length === 0 ? true : issues;
+            }),
+        ),
+        targetStore.addValidator(
+            stateValidator<T>((next) => {
+                if (propagating || checking) return true;
+
+                const mapped = mapToSource(next);
+                const issues = [
+                    ...check(sourceStore, mapped),
+                    ...validatePair(next, { ...sourceStore.rawState, ...mapped }),
+                ];
+                return issues.length === 0 ? true : issues;
+            }),
+        ),
+    ];
+
+    const propagate = <S extends StoreState>(
+        store: Store<S>,
+        mapped: Partial<S>,
+        context: UpdateContext,
+    ) => {
+        const changes = diffWith(store.rawState, mapped);
+        if (!changes) return;
+
+        propagating = true;
+        try {
+            store.update(() => changes, { label: context.label ?? 'link' });
+        } finally {
+            propagating = false;
+        }
+    };
+
+    const unsubscribes = [
+        sourceStore.onCommit((state, _prev, context) => {
+            if (!propagating) {
+                propagate(targetStore, mapFromSource(state), context);
+            }
+        }),
+        targetStore.onCommit((state, _prev, context) => {
+            if (!propagating) {
+                propagate(sourceStore, mapToSource(state), context);
+            }
+        }),
+    ];
+
+    propagate(targetStore, mapFromSource(sourceStore.rawState), { label: 'link' });
+
+    let linked = true;
+    return {
+        unlink() {
+            if (linked) {
+                linked = false;
+                unsubscribes.forEach((unsubscribe) => unsubscribe());
+                removeValidators.forEach((remove) => remove());
+            }
+        },
+    };
+}
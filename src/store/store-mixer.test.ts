@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import { Store } from './store';
+import { mixStores } from './store-mixer';
+import { createHistory } from './history';
+import { StoreRegistry } from './registry';
+
+interface IGameState {
+    score: number;
+    level: number;
+}
+
+interface IUiState {
+    open: boolean;
+    tab: string;
+}
+
+function createStores() {
+    const game = new Store<IGameState>({ score: 0, level: 1 });
+    const ui = new Store<IUiState>({ open: false, tab: 'game' });
+    return { game, ui };
+}
+
+describe('mixStores', () => {
+    it('propagates flat updates to the source stores and back', () => {
+        const { game, ui } = createStores();
+        const mixed = mixStores([game, ui]);
+
+        mixed.update(() => ({ score: 10, open: true }));
+        expect(game.state.score).toBe(10);
+        expect(ui.state.open).toBe(true);
+
+        game.reset({ score: 5, level: 2 });
+        ui.transaction(() => ui.update(() => ({ tab: 'settings' })));
+        expect(mixed.state).toEqual({ score: 5, level: 2, open: true, tab: 'settings' });
+    });
+
+    it('mixes stores by namespace', () => {
+        const { game, ui } = createStores();
+        const app = mixStores({ game, ui });
+
+        app.update((state) => ({ ui: { ...state.ui, open: true } }));
+        expect(ui.state.open).toBe(true);
+
+        game.update(() => ({ level: 3 }));
+        expect(app.state.game.level).toBe(3);
+    });
+
+    it('produces one commit per namespaced update so one undo restores it', () => {
+        const { game, ui } = createStores();
+        const app = mixStores({ game, ui });
+        const history = createHistory(app);
+        let commits = 0;
+        app.onCommit(() => commits++);
+
+        app.update((state) => ({ ui: { ...state.ui, open: true } }));
+        expect(commits).toBe(1);
+
+        history.undo();
+        expect(app.state.ui.open).toBe(false);
+        expect(ui.state.open).toBe(false);
+        expect(history.canUndo).toBe(false);
+    });
+
+    it('keeps a store in sync when it is mixed twice', () => {
+        const { game, ui } = createStores();
+        const first = mixStores([game, ui]);
+        const second = mixStores({ game });
+
+        first.update(() => ({ score: 7 }));
+        expect(second.state.game.score).toBe(7);
+
+        second.update((state) => ({ game: { ...state.game, level: 4 } }));
+        expect(first.state.level).toBe(4);
+    });
+
+    it('detects key conflicts or resolves them with a strategy', () => {
+        const a = new Store({ shared: 1, a: true });
+        const b = new Store({ shared: 2, b: true });
+
+        expect(() => mixStores([a, b])).toThrow('Key "shared" is present in several mixed stores');
+
+        const mixed = mixStores([a, b], { conflicts: 'last' });
+        expect(mixed.state.shared).toBe(2);
+        expect(a.state.shared).toBe(2);
+
+        a.update(() => ({ shared: 3 }));
+        expect(mixed.state.shared).toBe(3);
+        expect(b.state.shared).toBe(3);
+
+        const merged = mixStores([new Store({ n: 1 }), new Store({ n: 2 })], {
+            conflicts: (_key, values) => (values as number[]).reduce((sum, n) => sum + n, 0),
+        });
+        expect(merged.state.n).toBe(3);
+    });
+
+    it('rolls back every store when a source validator rejects the update', () => {
+        const game = new Store<IGameState>(
+            { score: 0, level: 1 },
+            { validators: [(update) => (update.level === 0 ? 'Level must be positive' : true)] },
+        );
+        const { ui } = createStores();
+        const mixed = mixStores([game, ui]);
+
+        expect(() => mixed.update(() => ({ level: 0, open: true }))).toThrow(
+            'Level must be positive',
+        );
+        expect(mixed.state.open).toBe(false);
+        expect(ui.state.open).toBe(false);
+        expect(game.state.level).toBe(1);
+    });
+
+    it('stops syncing after cleanup and unregisters the mixed store', () => {
+        const { game, ui } = createStores();
+        const registry = new StoreRegistry();
+        const mixed = mixStores([game, ui], { name: 'app', registry });
+        expect(registry.get('app')).toBe(mixed);
+
+        mixed.cleanup();
+        game.update(() => ({ score: 99 }));
+        expect(mixed.state.score).toBe(0);
+        expect(registry.has('app')).toBe(false);
+    });
+});
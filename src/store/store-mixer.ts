@@ -1,156 +1,357 @@
 import { Store } from './store';
-import { Middleware, Validator } from './models';
+import {
+    IMixedStore,
+    IMixedStoreOptions,
+    MixConflictStrategy,
+    StoreState,
+    UpdateContext,
+} from './models';
+import { linkStores } from './store-link';
+import { storeRegistry } from './registry';
+import { changedFields } from './utils';
 
-type StoresUnion<T extends Store<any>[]> = T extends [Store<infer U>]
+/**
+ * Хранилище с любым типом состояния. Store инвариантен по типу состояния,
+ * поэтому ограничение описывает только методы, которые нужны объединению
+ */
+type MixSourceStore = Pick<Store<StoreState>, 'cloneState' | 'onCommit' | 'update'>;
+
+type StoresUnion<T extends MixSourceStore[]> = T extends [Store<infer U>]
     ? U
-    : T extends [Store<infer U>, ...infer Rest extends Store<any>[]]
-    ? U & StoresUnion<Rest>
-    : never;
+    : T extends [Store<infer U>, ...infer Rest extends MixSourceStore[]]
+      ? U & StoresUnion<Rest>
+      : never;
 
-interface MixStoresOptions<T> {
-    middleware?: Middleware<T>[];
-    validators?: Validator<T>[];
+type NamespacedState<R extends Record<string, MixSourceStore>> = {
+    [K in keyof R]: R[K] extends Store<infer U> ? U : never;
+};
+
+/** Исходное хранилище объединения */
+interface IMixSource {
+    store: MixSourceStore;
+    /** Поле объединенного состояния, в котором лежит состояние хранилища */
+    namespace?: string;
+    /** Ключи хранилища в плоском объединении */
+    keys: string[];
 }
 
 /**
- * Создает новое хранилище, объединяющее несколько хранилищ в одно
- * Изменения в объединенном хранилище будут пропагироваться в оригинальные хранилища и наоборот
+ * Объединенное хранилище. Исходные хранилища остаются источником истины:
+ * их изменения приходят через onCommit, а изменения объединенного хранилища
+ * передаются им через update внутри одного batch.
  */
+class MixedStore<S extends StoreState> extends Store<S> implements IMixedStore<S> {
+    private _mirroring = false;
+    private _unsubscribes: Array<() => void>;
+
+    constructor(
+        private _sources: IMixSource[],
+        initialState: S,
+        options: IMixedStoreOptions<S>,
+    ) {
+        super(initialState, options);
+        this._unsubscribes = _sources.map((source) =>
+            source.store.onCommit((state, _prev, context) => this.mirror(source, state, context)),
+        );
+    }
+
+    /**
+     * Связать объединенное хранилище с хранилищами из опции links
+     */
+    public link(links: IMixedStoreOptions<S>['links'] = []): void {
+        links.forEach((link) => {
+            const ref = linkStores<StoreState, S>({
+                targetStore: link.store,
+                sourceStore: this,
+                mapFromSource: link.mapFrom,
+                mapToSource: link.mapTo,
+            });
+            this._unsubscribes.push(ref.unlink);
+        });
+    }
+
+    /**
+     * Зарегистрировать объединенное хранилище в реестре, если указано имя
+     */
+    public register(options: IMixedStoreOptions<S>): void {
+        if (options.name) {
+            this._unsubscribes.push(
+                (options.registry ?? storeRegistry).register(options.name, this),
+            );
+        }
+    }
+
+    /**
+     * Отключить синхронизацию с исходными и связанными хранилищами и удалить из реестра
+     */
+    public cleanup(): void {
+        this._unsubscribes.splice(0).forEach((unsubscribe) => unsubscribe());
+        this._sources = [];
+    }
+
+    /**
+     * Все способы изменения (update, reset, transaction, batch и другие) проходят через commit,
+     * поэтому изменения передаются исходным хранилищам здесь. Валидаторы исходных хранилищ
+     * проверяют изменения при завершении batch, и при ошибке откатываются все хранилища.
+     */
+    protected commit(next: S, context: UpdateContext = {}): void {
+        if (this._mirroring) {
+            super.commit(next, context);
+            return;
+        }
+
+        const current = this.rawState;
+        Store.batch(() => {
+            super.commit(next, context);
+            this._sources.forEach((source) => {
+                const changes = this.sourceChanges(source, current, next);
+                if (changes) {
+                    source.store.update(() => changes, context);
+                }
+            });
+        });
+    }
+
+    /**
+     * Получить изменения, которые нужно передать исходному хранилищу
+     */
+    private sourceChanges(source: IMixSource, current: S, next: S): StoreState | null {
+        const changes = source.namespace
+            ? changedFields(current[source.namespace] ?? {}, next[source.namespace] ?? {})
+            : changedFields(pick(current, source.keys), pick(next, source.keys));
+
+        return Object.keys(changes).length > 0 ? changes : null;
+    }
+
+    /**
+     * Перенести изменение исходного хранилища в объединенное состояние
+     */
+    private mirror(source: IMixSource, state: StoreState, context: UpdateContext): void {
+        const current = this.rawState;
+        let changes: StoreState;
+
+        if (source.namespace) {
+            // Изменение, переданное исходному хранилищу самим объединением, уже есть в состоянии
+            if (sameFields(current[source.namespace] ?? {}, state)) return;
+            changes = { [source.namespace]: state };
+        } else {
+            changes = changedFields(pick(current, source.keys), pick(state, source.keys));
+            if (Object.keys(changes).length === 0) return;
+        }
+
+        this._mirroring = true;
+        try {
+            this.commit({ ...current, ...changes }, context);
+        } finally {
+            this._mirroring = false;
+        }
+
+        if (!source.namespace) {
+            this.shareKeys(source, changes, context);
+        }
+    }
+
+    /**
+     * Передать изменения общих ключей остальным хранилищам, в которых они есть
+     */
+    private shareKeys(origin: IMixSource, changes: StoreState, context: UpdateContext): void {
+        this._sources.forEach((source) => {
+            if (source === origin || source.namespace) return;
+
+            const shared = pick(changes, source.keys);
+            if (Object.keys(shared).length > 0) {
+                source.store.update(() => shared, context);
+            }
+        });
+    }
+}
+
+/**
+ * Проверить, что состояния содержат одни и те же ключи с одинаковыми значениями
+ */
+function sameFields(a: StoreState, b: StoreState): boolean {
+    return (
+        Object.keys(a).length === Object.keys(b).length &&
+        Object.keys(changedFields(a, b)).length === 0
+    );
+}
+
+function pick(state: StoreState, keys: string[]): StoreState {
+    const picked: StoreState = {};
+    for (const key of keys) {
+        if (key in state) {
+            picked[key] = state[key];
+        }
+    }
+    return picked;
+}
+
+/**
+ * Собрать начальное плоское состояние, разрешив конфликты ключей
+ * @returns Состояние и значения общих ключей, которые нужно записать в исходные хранилища
+ */
+function mergeFlat(
+    sources: IMixSource[],
+    states: StoreState[],
+    strategy: MixConflictStrategy,
+): { state: StoreState; resolved: StoreState } {
+    const owners = new Map<string, number[]>();
+    sources.forEach((source, index) =>
+        source.keys.forEach((key) => owners.set(key, [...(owners.get(key) ?? []), index])),
+    );
+
+    const state: StoreState = {};
+    const resolved: StoreState = {};
+    owners.forEach((indexes, key) => {
+        const values = indexes.map((index) => states[index][key]);
+        if (indexes.length === 1) {
+            state[key] = values[0];
+            return;
+        }
+
+        if (strategy === 'error') {
+            throw new Error(`Key "${key}" is present in several mixed stores`);
+        }
+
+        state[key] =
+            strategy === 'first'
+                ? values[0]
+                : strategy === 'last'
+                  ? values[values.length - 1]
+                  : strategy(key, values);
+        resolved[key] = state[key];
+    });
+
+    return { state, resolved };
+}
+
 /**
  * Объединяет несколько хранилищ в одно с синхронизированным состоянием.
- * 
+ *
  * Возможности:
- * - Двунаправленная синхронизация состояния
- * - Оптимизированные обновления (только измененные поля)
- * - Сохранение middleware и валидаторов
+ * - Двунаправленная синхронизация состояния для всех способов изменения:
+ *   update, reset, transaction, batch, produce и других
+ * - Обнаружение ключей, которые есть в нескольких хранилищах, или их объединение
+ * - Объединение по пространствам имен: { game: gameStore, ui: uiStore }
+ * - Оптимизированные обновления (только измененные поля и только нужные хранилища)
+ * - Атомарность: если исходное хранилище отклонило изменение, откатываются все
+ * - Связи с хранилищами другой структуры через опцию links (см. linkStores)
+ * - Регистрация в реестре хранилищ через опцию name (см. StoreRegistry)
  * - Типобезопасное объединение состояний
- * - Предотвращение циклов обновления
- * 
- * Объединенное хранилище содержит все поля из всех исходных хранилищ.
- * Обновления можно делать как через объединенное хранилище, так и через оригинальные.
- * Только фактически измененные поля вызывают обновления и middleware.
- * 
+ *
+ * Исходные хранилища не изменяются и могут входить в несколько объединений.
+ * Изменения через объединенное хранилище проходят его middleware и валидаторы,
+ * а затем middleware и валидаторы исходных хранилищ. Изменения через исходное
+ * хранилище проверяются только его собственными валидаторами.
+ *
+ * В плоском объединении набор ключей каждого хранилища фиксируется при объединении.
+ *
  * @example
  * ```typescript
- * // Создание оригинальных хранилищ
  * const gameStore = new Store<GameState>({
  *   playerCount: 2,
  *   score: 0
  * }, {
  *   validators: [playerCountValidator]
  * });
- * 
+ *
  * const uiStore = new Store<UiState>({
  *   isMenuOpen: false,
  *   selectedTab: 'game'
  * });
- * 
- * // Создание объединенного хранилища
+ *
+ * // Плоское объединение
  * const mixedStore = mixStores(
  *   [gameStore, uiStore],
- *   { middleware: [loggerMiddleware] }
+ *   { middleware: [loggerMiddleware()] }
  * );
- * 
- * // Обновление через объединенное хранилище
+ *
  * mixedStore.update(state => ({
- *   ...state,
  *   score: state.score + 10,
  *   isMenuOpen: true
  * }));
- * 
- * // Или обновление через оригинальное хранилище
- * gameStore.update(state => ({
- *   ...state,
- *   playerCount: 4
- * }));
+ *
+ * // Изменения исходных хранилищ попадают в объединенное любым способом
+ * gameStore.reset({ playerCount: 4, score: 0 });
+ *
+ * // Объединение по пространствам имен
+ * const appStore = mixStores({ game: gameStore, ui: uiStore });
+ * appStore.update(state => ({ ui: { ...state.ui, isMenuOpen: false } }));
+ *
+ * // Общий ключ: значение берется из последнего хранилища и синхронизируется во всех
+ * const shared = mixStores([settingsStore, profileStore], { conflicts: 'last' });
+ *
+ * // Связь с хранилищем другой структуры
+ * const linked = mixStores([gameStore, uiStore], {
+ *   links: [{
+ *     store: hudStore,
+ *     mapFrom: state => ({ scoreText: String(state.score) }),
+ *     mapTo: hud => ({ isMenuOpen: hud.menuVisible })
+ *   }]
+ * });
+ *
+ * mixedStore.cleanup();
  * ```
- * 
- * @param stores - Массив хранилищ для объединения
- * @param options - Опциональные middleware и валидаторы для объединенного хранилища
- * @returns Новое хранилище, содержащее все поля из входных хранилищ
+ *
+ * @param stores - Массив хранилищ или объект с именованными хранилищами
+ * @param options - Middleware, валидаторы, разрешение конфликтов ключей, связи и имя в реестре
+ * @returns Новое хранилище, содержащее состояние всех входных хранилищ
+ * @throws Error если ключ есть в нескольких хранилищах и conflicts равно 'error'
  */
-export function mixStores<const T extends Store<any>[]>(
+export function mixStores<const T extends MixSourceStore[]>(
     stores: T,
-    options: MixStoresOptions<StoresUnion<T>> = {}
-): Store<StoresUnion<T>> {
-    const initialState = stores.reduce((acc, store) => ({
-        ...acc,
-        ...store.state
-    }), {}) as StoresUnion<T>;
-
-    interface ExtendedStore<T extends object> extends Store<T> {
-        cleanup: () => void;
-    }
-
-    class MixedStore extends Store<StoresUnion<T>> implements ExtendedStore<StoresUnion<T>> {
-        cleanup(): void {
-            unsubscribes.forEach(unsub => unsub());
-        }
-
-        update(callback: (current: StoresUnion<T>) => Partial<StoresUnion<T>>): void {
-            const update = callback(this.state);
-            this.validateUpdate(update);
-
-            stores.forEach(store => {
-                const storeUpdate = {} as any;
-                let hasUpdate = false;
+    options?: IMixedStoreOptions<StoresUnion<T>>,
+): IMixedStore<StoresUnion<T>>;
 
-                for (const key in update) {
-                    if (key in store.state && store.state[key] !== update[key]) {
-                        storeUpdate[key] = update[key];
-                        hasUpdate = true;
-                    }
-                }
-
-                if (hasUpdate) {
-                    store.validateUpdate(storeUpdate);
-                }
-            });
+export function mixStores<const R extends Record<string, MixSourceStore>>(
+    stores: R,
+    options?: IMixedStoreOptions<NamespacedState<R>>,
+): IMixedStore<NamespacedState<R>>;
 
-            super.update(current => update);
+export function mixStores(
+    stores: MixSourceStore[] | Record<string, MixSourceStore>,
+    options: IMixedStoreOptions<StoreState> = {},
+): IMixedStore<StoreState> {
+    if (!Array.isArray(stores)) {
+        const sources: IMixSource[] = Object.entries(stores).map(([namespace, store]) => ({
+            store,
+            namespace,
+            keys: [],
+        }));
+        const initialState = Object.fromEntries(
+            sources.map((source) => [source.namespace, source.store.cloneState()]),
+        );
+        const namespacedStore = new MixedStore(sources, initialState, options);
+        namespacedStore.link(options.links);
+        namespacedStore.register(options);
+        return namespacedStore;
+    }
 
-            stores.forEach(store => {
-                const storeUpdate = {} as any;
-                let hasUpdate = false;
+    const states = stores.map((store) => store.cloneState());
+    const sources: IMixSource[] = stores.map((store, index) => ({
+        store,
+        keys: Object.keys(states[index]),
+    }));
+    const { state, resolved } = mergeFlat(sources, states, options.conflicts ?? 'error');
 
-                for (const key in update) {
-                    if (key in store.state && store.state[key] !== update[key]) {
-                        storeUpdate[key] = update[key];
-                        hasUpdate = true;
-                    }
-                }
+    const mixedStore = new MixedStore(sources, state, options);
 
-                if (hasUpdate) {
-                    const originalUpdate = store.update;
-                    store.update = function(this: Store<any>, cb: any) {
-                        Store.prototype.update.call(this, cb);
-                    };
-                    store.update(() => storeUpdate);
-                    store.update = originalUpdate;
+    // Записать выбранные значения общих ключей во все хранилища, где они есть
+    if (Object.keys(resolved).length > 0) {
+        Store.batch(() => {
+            sources.forEach((source, index) => {
+                const changes = changedFields(
+                    pick(states[index], source.keys),
+                    pick(resolved, source.keys),
+                );
+                if (Object.keys(changes).length > 0) {
+                    source.store.update(() => changes, { label: 'mix' });
                 }
             });
-        }
+        });
     }
 
-    const mixedStore = new MixedStore(initialState, {
-        middleware: options.middleware || [],
-        validators: options.validators || []
-    });
-
-    const unsubscribes = stores.map(store => {
-        const originalUpdate = store.update;
-        store.update = function(this: Store<any>, callback: any) {
-            const state = this.state;
-            const update = callback(state);
-
-            this.validateUpdate(update);
-            mixedStore.update(current => update);
-        };
-
-        return () => {
-            store.update = originalUpdate;
-        };
-    });
-
+    mixedStore.link(options.links);
+    mixedStore.register(options);
     return mixedStore;
 }
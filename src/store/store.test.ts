@@ -0,0 +1,384 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Store } from './store';
+import { StoreValidationError } from './errors';
+import { deepEqual } from './equality';
+import { rangeValidator, stateValidator } from './validators';
+import { computed } from './computed';
+
+interface IRangeState {
+    min: number;
+    max: number;
+    label: string;
+}
+
+const orderedRange = stateValidator<IRangeState>((next) =>
+    next.min <= next.max ? true : 'Min must not exceed max',
+);
+
+const createRange = (options: ConstructorParameters<typeof Store<IRangeState>>[1] = {}) =>
+    new Store<IRangeState>({ min: 0, max: 10, label: '' }, options);
+
+describe('subscribe with selector', () => {
+    it('calls the listener only when the selected value changes', async () => {
+        const store = createRange();
+        const listener = vi.fn();
+        store.subscribe((state) => state.min, listener);
+
+        store.update(() => ({ label: 'x' }));
+        await Promise.resolve();
+        expect(listener).not.toHaveBeenCalled();
+
+        store.update(() => ({ min: 3 }));
+        await Promise.resolve();
+        expect(listener).toHaveBeenCalledWith(3, 0);
+    });
+
+    it('compares selected objects shallowly by default', async () => {
+        const store = createRange();
+        const listener = vi.fn();
+        store.subscribe((state) => ({ min: state.min, max: state.max }), listener);
+
+        store.update(() => ({ label: 'x' }));
+        await Promise.resolve();
+        expect(listener).not.toHaveBeenCalled();
+
+        store.update(() => ({ max: 4 }));
+        await Promise.resolve();
+        expect(listener).toHaveBeenCalledWith({ min: 0, max: 4 }, { min: 0, max: 10 });
+    });
+
+    it('uses a custom equality function', async () => {
+        const store = new Store({ player: { position: { x: 0, y: 0 } }, tick: 0 });
+        const shallow = vi.fn();
+        const deep = vi.fn();
+        store.subscribe((state) => state.player, shallow);
+        store.subscribe((state) => state.player, deep, { equals: deepEqual });
+
+        store.update(() => ({ player: { position: { x: 0, y: 0 } }, tick: 1 }));
+        await Promise.resolve();
+
+        expect(shallow).toHaveBeenCalledOnce();
+        expect(deep).not.toHaveBeenCalled();
+    });
+
+    it('notices replaced Map, Set and Date values', async () => {
+        const store = new Store({
+            items: new Map([['sword', 1]]),
+            seen: new Set<string>(),
+            at: new Date(0),
+        });
+        const listener = vi.fn();
+        store.subscribe((state) => state.items, listener);
+        store.subscribe((state) => state.seen, listener);
+        store.subscribe((state) => state.at, listener);
+
+        store.update((state) => ({ items: new Map(state.items).set('shield', 1) }));
+        store.update(() => ({ seen: new Set(['intro']) }));
+        store.update(() => ({ at: new Date(1) }));
+        await Promise.resolve();
+        expect(listener).toHaveBeenCalledTimes(3);
+
+        store.update(() => ({ at: new Date(1) }));
+        await Promise.resolve();
+        expect(listener).toHaveBeenCalledTimes(3);
+    });
+
+    it('stops calling the listener after unsubscribe', async () => {
+        const store = createRange();
+        const listener = vi.fn();
+        const unsubscribe = store.subscribe((state) => state.label, listener);
+
+        unsubscribe();
+        store.update(() => ({ label: 'x' }));
+        await Promise.resolve();
+
+        expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('skips updates that change nothing', async () => {
+        const store = createRange();
+        const listener = vi.fn();
+        const commits = vi.fn();
+        store.subscribe(listener);
+        store.onCommit(commits);
+
+        store.update((state) => ({ min: state.min, label: '' }));
+        await Promise.resolve();
+
+        expect(commits).not.toHaveBeenCalled();
+        expect(listener).not.toHaveBeenCalled();
+    });
+});
+
+describe('batch', () => {
+    it('notifies subscribers once with the final state', async () => {
+        const store = createRange();
+        const listener = vi.fn();
+        store.subscribe(listener);
+        const labels: Array<string | undefined> = [];
+        store.onCommit((_state, _prev, context) => labels.push(context.label));
+
+        store.batch(() => {
+            store.update(() => ({ min: 1 }));
+            store.update(() => ({ max: 5 }));
+        });
+        await Promise.resolve();
+
+        expect(listener).toHaveBeenCalledOnce();
+        expect(store.state).toEqual({ min: 1, max: 5, label: '' });
+        expect(labels).toEqual(['batch']);
+    });
+
+    it('validates the combined changes once at the end', () => {
+        const store = createRange({ validators: [orderedRange] });
+
+        store.batch(() => {
+            store.update(() => ({ min: 20 }));
+            store.update(() => ({ max: 30 }));
+        });
+        expect(store.state).toEqual({ min: 20, max: 30, label: '' });
+
+        expect(() => store.batch(() => store.update(() => ({ min: 40 })))).toThrow(
+            StoreValidationError,
+        );
+        expect(store.state.min).toBe(20);
+    });
+
+    it('rolls back every store when the batch throws', () => {
+        const a = createRange();
+        const b = createRange();
+        const listener = vi.fn();
+        a.onCommit(listener);
+
+        expect(() =>
+            Store.batch(() => {
+                a.update(() => ({ label: 'a' }));
+                b.update(() => ({ label: 'b' }));
+                throw new Error('failed');
+            }),
+        ).toThrow('failed');
+
+        expect(a.state.label).toBe('');
+        expect(b.state.label).toBe('');
+        expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('publishes nested batches with the outermost one', () => {
+        const store = createRange();
+        const listener = vi.fn();
+        store.onCommit(listener);
+
+        store.batch(() => {
+            store.batch(() => store.update(() => ({ label: 'inner' })));
+            expect(listener).not.toHaveBeenCalled();
+            expect(() =>
+                store.batch(() => {
+                    store.update(() => ({ label: 'discarded' }));
+                    throw new Error('inner failed');
+                }),
+            ).toThrow('inner failed');
+        });
+
+        expect(listener).toHaveBeenCalledOnce();
+        expect(store.state.label).toBe('inner');
+    });
+
+    it('applies transactions through validators and middleware', () => {
+        const middleware = vi.fn((state, update, next) => next(state, update));
+        const store = createRange({ validators: [orderedRange], middleware: [middleware] });
+
+        store.transaction({ apply: (state) => ({ ...state, max: 3 }) });
+        expect(store.state.max).toBe(3);
+        expect(middleware).toHaveBeenCalledOnce();
+
+        expect(() => store.transaction({ apply: (state) => ({ ...state, min: 5 }) })).toThrow(
+            'Min must not exceed max',
+        );
+        expect(store.state.min).toBe(0);
+    });
+
+    it('applies the transaction rollback to the state before a failed transaction', () => {
+        const store = createRange({ validators: [orderedRange] });
+        const rollback = vi.fn((state: IRangeState) => ({ ...state, max: 1 }));
+
+        expect(() =>
+            store.transaction({ apply: (state) => ({ ...state, min: 20 }), rollback }),
+        ).toThrow('Min must not exceed max');
+
+        expect(rollback).toHaveBeenCalledWith({ min: 0, max: 10, label: '' });
+        expect(store.state).toEqual({ min: 0, max: 1, label: '' });
+    });
+
+    it('defers updateAsync validation inside a batch to its commit', async () => {
+        const store = createRange({ validators: [orderedRange] });
+        const validate = vi.spyOn(store, 'validateUpdate');
+        let pending: Promise<void> = Promise.resolve();
+
+        store.batch(() => {
+            pending = store.updateAsync(() => ({ min: 50 }));
+            expect(validate).not.toHaveBeenCalled();
+        });
+
+        await expect(pending).rejects.toThrow('Min must not exceed max');
+        expect(validate).toHaveBeenCalledOnce();
+        expect(store.state.min).toBe(0);
+
+        store.batch(() => {
+            pending = store.updateAsync(() => ({ min: 5 }));
+        });
+        await pending;
+        expect(store.state.min).toBe(5);
+    });
+});
+
+interface IGameState {
+    player: { hp: number; stats: { strength: number } };
+    mana: number;
+    turn: number;
+}
+
+const createGame = () =>
+    new Store<IGameState>({ player: { hp: 100, stats: { strength: 1 } }, mana: 10, turn: 0 });
+
+describe('slice', () => {
+    it('writes slice updates through to the parent', () => {
+        const game = createGame();
+        const player = game.slice('player');
+
+        player.update((state) => ({ hp: state.hp - 10 }));
+
+        expect(player.state.hp).toBe(90);
+        expect(game.state.player).toEqual({ hp: 90, stats: { strength: 1 } });
+    });
+
+    it('notifies slice listeners only when the slice changes', async () => {
+        const game = createGame();
+        const player = game.slice('player');
+        const listener = vi.fn();
+        player.subscribe(listener);
+
+        game.update(() => ({ turn: 1 }));
+        await Promise.resolve();
+        expect(listener).not.toHaveBeenCalled();
+
+        game.update((state) => ({ player: { ...state.player, hp: 50 } }));
+        await Promise.resolve();
+        expect(listener).toHaveBeenCalledOnce();
+        expect(player.state.hp).toBe(50);
+    });
+
+    it('nests slices and maps state with a selector and setter', () => {
+        const game = createGame();
+        const stats = game.slice('player').slice('stats');
+        const vitals = game.slice(
+            (state) => ({ hp: state.player.hp, mana: state.mana }),
+            (state, next) => ({ player: { ...state.player, hp: next.hp }, mana: next.mana }),
+        );
+
+        stats.update(() => ({ strength: 5 }));
+        vitals.update(() => ({ hp: 70, mana: 3 }));
+
+        expect(game.state).toEqual({
+            player: { hp: 70, stats: { strength: 5 } },
+            mana: 3,
+            turn: 0,
+        });
+        expect(vitals.state).toEqual({ hp: 70, mana: 3 });
+    });
+
+    it('rolls back the slice when its own or the parent validators reject', () => {
+        const game = createGame();
+        game.addValidator(
+            stateValidator<IGameState>((next) => next.player.hp <= 100 || 'Overhealed'),
+        );
+        const player = game.slice('player', {
+            validators: [rangeValidator<IGameState['player']>('hp', { min: 0 })],
+        });
+
+        expect(() => player.update(() => ({ hp: -1 }))).toThrow('hp must be at least 0');
+        expect(() => player.update(() => ({ hp: 150 }))).toThrow('Overhealed');
+
+        expect(player.state.hp).toBe(100);
+        expect(game.state.player.hp).toBe(100);
+    });
+
+    it('picks up changes made by parent middleware', () => {
+        const game = new Store<IGameState>(createGame().cloneState(), {
+            middleware: [
+                (state, update, next) => {
+                    const result = next(state, update);
+                    return {
+                        ...result,
+                        player: { ...result.player, hp: Math.min(result.player.hp, 80) },
+                    };
+                },
+            ],
+        });
+        const player = game.slice('player');
+
+        player.update(() => ({ hp: 95 }));
+
+        expect(player.state.hp).toBe(80);
+    });
+
+    it('works as a computed dependency', () => {
+        const game = createGame();
+        const player = game.slice('player');
+        const strong = computed(player, (state) => state.stats.strength > 3);
+
+        expect(strong.value).toBe(false);
+        game.update((state) => ({ player: { ...state.player, stats: { strength: 4 } } }));
+
+        expect(strong.value).toBe(true);
+    });
+
+    it('stops following the parent after cleanup', () => {
+        const game = createGame();
+        const player = game.slice('player');
+
+        player.cleanup();
+        game.update((state) => ({ player: { ...state.player, hp: 1 } }));
+        player.update(() => ({ hp: 2 }));
+
+        expect(player.state.hp).toBe(2);
+        expect(game.state.player.hp).toBe(1);
+    });
+});
+
+describe('structural sharing', () => {
+    it('shares unchanged subtrees between the previous and next state', () => {
+        const game = createGame();
+        const player = game.rawState.player;
+
+        game.update(() => ({ turn: 1 }));
+
+        expect(game.rawState.player).toBe(player);
+        expect(game.prev.turn).toBe(0);
+        expect(game.prev.player).toBe(game.state.player);
+    });
+
+    it('commits without cloning the state', () => {
+        const game = createGame();
+        const clone = vi.spyOn(game.serializer, 'clone');
+
+        game.update(() => ({ turn: 1 }));
+        game.transaction({ apply: (state) => ({ ...state, mana: 5 }) });
+        game.reset(createGame().rawState);
+        void game.prev.turn;
+
+        expect(clone).not.toHaveBeenCalled();
+        clone.mockRestore();
+    });
+
+    it('returns independent copies from cloneState and clonePrevState', () => {
+        const game = createGame();
+        game.update(() => ({ turn: 1 }));
+
+        const prev = game.clonePrevState();
+        prev.player.hp = 0;
+
+        expect(prev.turn).toBe(0);
+        expect(game.prev.player.hp).toBe(100);
+        expect(game.cloneState().player).not.toBe(game.rawState.player);
+    });
+});
@@ -1,15 +1,81 @@
-import { Listener, Middleware, IStoreOptions, ITransaction, Validator } from "./models";
+import {
+    Listener,
+    Middleware,
+    AsyncMiddleware,
+    IStoreOptions,
+    ITransaction,
+    StoreValidator,
+    CommitHook,
+    Selector,
+    ISubscribeOptions,
+    IListenerOptions,
+    Path,
+    PathValue,
+    ValidationIssue,
+    ValidatorResult,
+    JsonPatchOperation,
+    PatchListener,
+    UpdateContext,
+    DeepReadonly,
+    StoreMode,
+    IStoreConfig,
+    ISliceStore,
+    SliceKey,
+    SliceSetter,
+} from './models';
+import { StoreValidationError } from './errors';
+import { shallowEqual } from './equality';
+import { createDraft, finishDraft, updateAtPath } from './draft';
+import { applyJsonPatches, createPatches } from './patches';
+import { changedFields, deepFreeze } from './utils';
+import { ALL_KEYS, runTracked, trackKey, TrackedKey } from './reactivity';
+import { createReadonlyState, unwrapProxies } from './readonly';
+import { defaultSerializer, Serializer } from './serialization';
+import {
+    flushSchedulers,
+    NotificationScheduler,
+    resolvePriority,
+    resolveScheduler,
+    Scheduler,
+    SchedulerJob,
+} from './scheduling';
+
+/**
+ * Привести результат валидатора к списку нарушений
+ * @param result Результат вызова валидатора
+ */
+function toValidationIssues(result: ValidatorResult): ValidationIssue[] {
+    if (result === true) return [];
+    if (Array.isArray(result)) return result;
+    return [{ rule: 'custom', message: typeof result === 'string' ? result : 'Validation failed' }];
+}
+
+/** Изменения хранилища, накопленные внутри batch */
+interface IBatchEntry {
+    snapshot: unknown;
+    contexts: UpdateContext[];
+}
+
+/** Proxy состояния только для чтения и объект, для которого он создан */
+interface IStateView<T> {
+    target: T;
+    withPath: boolean;
+    proxy: DeepReadonly<T>;
+}
 
 /**
  * Типобезопасная реактивная реализация хранилища с поддержкой middleware и валидации.
- * 
+ *
  * Возможности:
  * - Типобезопасное управление состоянием
  * - Поддержка middleware для перехвата и преобразования обновлений
  * - Система валидации для предотвращения недопустимых состояний
  * - Оптимизированные пакетные обновления с использованием микрозадач
- * - Поддержка транзакций с возможностью отката
- * 
+ *   или другого планировщика (синхронно, раз в кадр, вручную из игрового цикла)
+ * - Атомарные пакеты изменений (batch) с автоматическим откатом
+ * - Структурное разделение: новое и предыдущее состояния разделяют неизмененные
+ *   поддеревья, изменение не копирует состояние целиком
+ *
  * @example
  * ```typescript
  * // Создание хранилища с валидаторами и middleware
@@ -17,50 +83,65 @@ import { Listener, Middleware, IStoreOptions, ITransaction, Validator } from "./
  *   playerCount: number;
  *   score: number;
  * }
- * 
+ *
  * const validator = numberRangeValidator<GameState>({
  *   playerCount: { min: 2, max: 10 }
  * });
- * 
+ *
  * const store = new Store<GameState>(
  *   { playerCount: 2, score: 0 },
  *   { validators: [validator] }
  * );
- * 
+ *
  * // Подписка на изменения
  * store.subscribe(state => {
  *   console.log('Новое состояние:', state);
  * });
- * 
+ *
  * // Обновление состояния
  * store.update(state => ({
  *   ...state,
  *   score: state.score + 10
  * }));
- * 
- * // Использование транзакций для сложных обновлений
- * store.transaction({
- *   apply: state => ({ ...state, score: state.score + 5 }),
- *   rollback: state => ({ ...state, score: state.score - 5 })
+ *
+ * // Атомарное выполнение нескольких обновлений
+ * store.batch(() => {
+ *   store.update(state => ({ score: state.score + 5 }));
+ *   store.update(state => ({ playerCount: state.playerCount + 1 }));
  * });
  * ```
  */
-export class Store<T extends Object> {
-    private static _pendingNotifications = new Set<Store<any>>();
-    private static _isNotifying = false;
-    private static _notificationScheduled = false;
+export class Store<T extends object> {
+    private static _batches: Array<Map<Store<any>, IBatchEntry>> = [];
+    private static _config: Required<IStoreConfig> = { mode: 'readonly', scheduler: 'microtask' };
 
     private _prevData: T;
-    private _listeners: Set<Listener<T>> = new Set();
+    /** Подписчики и их числовые приоритеты */
+    private _listeners: Map<Listener<T>, number> = new Map();
+    private _notificationJobs: Map<number, SchedulerJob> = new Map();
+    private _commitHooks: Set<CommitHook<T>> = new Set();
     private _middleware: Middleware<T>[] = [];
-    private _validators: Validator<T>[] = [];
+    private _asyncMiddleware: AsyncMiddleware<T>[] = [];
+    private _validators: StoreValidator<T>[] = [];
+    private _serializer: Serializer;
+    private _mode: StoreMode | undefined;
+    private _scheduler: NotificationScheduler | undefined;
+    private _stateProxy: IStateView<T> | undefined = undefined;
+    private _prevProxy: IStateView<T> | undefined = undefined;
 
     constructor(
         private _data: T,
-        options: IStoreOptions<T> = {}
+        options: IStoreOptions<T> = {},
     ) {
-        this._prevData = this.safeDeepClone(this._data);
+        this._serializer = options.serializer ?? defaultSerializer;
+        this._mode = options.mode;
+        this._scheduler = options.scheduler;
+        if (this.mode === 'development') {
+            deepFreeze(this._data);
+        }
+        this._prevData = this._data;
         this._middleware = options.middleware || [];
+        this._asyncMiddleware = options.asyncMiddleware || [];
         this._validators = options.validators || [];
     }
 
@@ -85,16 +166,34 @@ export class Store<T extends Object> {
      * @returns Функция для удаления всех добавленных middleware
      */
     public addMiddlewares(middleware: Middleware<T>[]): () => void {
-        const removers = middleware.map(m => this.addMiddleware(m));
-        return () => removers.forEach(remove => remove());
+        const removers = middleware.map((m) => this.addMiddleware(m));
+        return () => removers.forEach((remove) => remove());
+    }
+
+    /**
+     * Добавить асинхронное middleware в хранилище.
+     * Асинхронные middleware выполняются только при обновлении через updateAsync
+     * @param middleware Функция асинхронного middleware для добавления
+     * @returns Функция для удаления этого middleware
+     */
+    public addAsyncMiddleware(middleware: AsyncMiddleware<T>): () => void {
+        this._asyncMiddleware.push(middleware);
+        return () => {
+            const index = this._asyncMiddleware.indexOf(middleware);
+            if (index !== -1) {
+                this._asyncMiddleware.splice(index, 1);
+            }
+        };
     }
 
     /**
-     * Добавить новый валидатор в хранилище
-     * @param validator Функция валидатора для добавления
+     * Добавить новый валидатор в хранилище.
+     * Принимает как валидатор частичного обновления, так и валидатор
+     * итогового состояния, созданный через stateValidator()
+     * @param validator Валидатор для добавления
      * @returns Функция для удаления этого валидатора
      */
-    public addValidator(validator: Validator<T>): () => void {
+    public addValidator(validator: StoreValidator<T>): () => void {
         this._validators.push(validator);
         return () => {
             const index = this._validators.indexOf(validator);
@@ -109,9 +208,9 @@ export class Store<T extends Object> {
      * @param validators Массив функций валидаторов
      * @returns Функция для удаления всех добавленных валидаторов
      */
-    public addValidators(validators: Validator<T>[]): () => void {
-        const removers = validators.map(v => this.addValidator(v));
-        return () => removers.forEach(remove => remove());
+    public addValidators(validators: StoreValidator<T>[]): () => void {
+        const removers = validators.map((v) => this.addValidator(v));
+        return () => removers.forEach((remove) => remove());
     }
 
     /**
@@ -122,110 +221,480 @@ export class Store<T extends Object> {
     }
 
     /**
-     * Получить текущее состояние
+     * Сериализатор, которым хранилище копирует и сериализует состояние
+     */
+    public get serializer(): Serializer {
+        return this._serializer;
+    }
+
+    /**
+     * Получить текущее состояние без Proxy и копирования.
+     * Неизмененные поддеревья сохраняют ссылки между изменениями, поэтому состояние
+     * можно сравнивать по ссылкам и дополнять через reset. Изменять его напрямую нельзя.
      */
-    protected get rawState(): T {
+    public get rawState(): T {
         return this._data;
     }
 
     /**
-     * Получить текущее состояние, используя Proxy для предотвращения прямых мутаций
+     * Получить предыдущее состояние.
+     * Возвращается без копирования и разделяет неизмененные поддеревья с текущим
+     * состоянием, поэтому доступно только для чтения, как и state. Копию можно
+     * получить через clonePrevState.
      */
+    public get prev(): DeepReadonly<T> {
+        if (this.mode === 'production') {
+            return this._prevData as DeepReadonly<T>;
+        }
+
+        this._prevProxy = this.readonlyView(this._prevProxy, this._prevData);
+        return this._prevProxy.proxy;
+    }
+
     /**
-     * Получить предыдущее состояние в виде копии
+     * Получить текущее состояние, доступное только для чтения на любой глубине.
+     * Чтение полей отслеживается, поэтому computed пересчитываются только при изменении прочитанных полей.
+     * В режиме 'production' состояние возвращается без Proxy.
      */
-    public get prev(): T {
-        return this.safeDeepClone(this._prevData);
+    public get state(): DeepReadonly<T> {
+        const mode = this.mode;
+        if (mode === 'production') {
+            trackKey(this, ALL_KEYS);
+            return this._data as DeepReadonly<T>;
+        }
+
+        this._stateProxy = this.readonlyView(this._stateProxy, this._data, (key) =>
+            trackKey(this, key),
+        );
+        return this._stateProxy.proxy;
     }
 
     /**
-     * Получить текущее состояние
+     * Получить Proxy состояния только для чтения, переиспользуя созданный ранее
+     * @param view Созданный ранее Proxy
+     * @param target Состояние
+     * @param onRead Функция отслеживания чтения полей корня
      */
-    public get state(): T {
-        return new Proxy(this._data, {
-            get: (target, prop) => {
-                const value = target[prop as keyof T];
-                return value instanceof Object ? new Proxy(value, {}) : value;
-            },
-            set: () => {
-                console.warn('Direct state mutation is not allowed. Use setState instead.');
-                return false;
-            }
-        });
+    private readonlyView(
+        view: IStateView<T> | undefined,
+        target: T,
+        onRead?: (key: TrackedKey) => void,
+    ): IStateView<T> {
+        const withPath = this.mode === 'development';
+        if (view?.target === target && view.withPath === withPath) {
+            return view;
+        }
+        return { target, withPath, proxy: createReadonlyState(target, withPath, onRead) };
+    }
+
+    /**
+     * Способ доступа к состоянию: опция mode хранилища или общая настройка Store.configure
+     */
+    public get mode(): StoreMode {
+        return this._mode ?? Store._config.mode;
+    }
+
+    /**
+     * Планировщик уведомлений подписчиков: опция scheduler хранилища или общая настройка Store.configure
+     */
+    public get scheduler(): Scheduler {
+        return resolveScheduler(this._scheduler ?? Store._config.scheduler);
+    }
+
+    /**
+     * Изменить общие настройки хранилищ.
+     * Действует на все хранилища, для которых настройка не задана в опциях.
+     * @param config Новые значения настроек
+     * @example
+     * ```typescript
+     * Store.configure({ mode: process.env.NODE_ENV === 'production' ? 'production' : 'development' });
+     *
+     * // Уведомления один раз за кадр игрового цикла
+     * const frameScheduler = new Scheduler();
+     * Store.configure({ scheduler: frameScheduler });
+     * ```
+     */
+    public static configure(config: IStoreConfig): void {
+        Store._config = { ...Store._config, ...config };
+    }
+
+    /**
+     * Синхронно выполнить все запланированные уведомления подписчиков и перезапуски
+     * эффектов во всех планировщиках, включая ручные. Полезно в тестах.
+     * @example
+     * ```typescript
+     * store.update(state => ({ score: state.score + 1 }));
+     * Store.flush();
+     * expect(listener).toHaveBeenCalledTimes(1);
+     * ```
+     */
+    public static flush(): void {
+        flushSchedulers();
     }
 
     /**
      * Подписаться на изменения состояния
      * @param listener Функция обратного вызова, вызываемая при изменении состояния
+     * @param options Опции подписки, например приоритет вызова
+     * @returns Функция отписки
+     */
+    public subscribe(listener: Listener<T>, options?: IListenerOptions): () => void;
+    /**
+     * Подписаться на изменения части состояния.
+     * Слушатель вызывается только если выбранное значение изменилось.
+     * @param selector Функция выбора части состояния
+     * @param listener Функция обратного вызова с новым и предыдущим выбранным значением
+     * @param options Опции подписки, например функция сравнения
+     * @returns Функция отписки
+     * @example
+     * ```typescript
+     * store.subscribe(
+     *   state => state.player.hp,
+     *   (hp, prevHp) => hud.setHp(hp)
+     * );
+     *
+     * store.subscribe(
+     *   state => state.inventory,
+     *   inventory => hud.renderInventory(inventory),
+     *   { equals: deepEqual, priority: 'pre-render' }
+     * );
+     * ```
+     */
+    public subscribe<S>(
+        selector: Selector<T, S>,
+        listener: Listener<S>,
+        options?: ISubscribeOptions<S>,
+    ): () => void;
+    public subscribe<S>(
+        listenerOrSelector: Listener<T> | Selector<T, S>,
+        selectedListenerOrOptions?: Listener<S> | IListenerOptions,
+        selectorOptions: ISubscribeOptions<S> = {},
+    ): () => void {
+        if (typeof selectedListenerOrOptions !== 'function') {
+            return this.addListener(listenerOrSelector as Listener<T>, selectedListenerOrOptions);
+        }
+
+        const selector = listenerOrSelector as Selector<T, S>;
+        const selectedListener = selectedListenerOrOptions;
+        const equals = selectorOptions.equals ?? shallowEqual;
+        let selected = selector(this._data);
+
+        const listener: Listener<T> = (state) => {
+            const next = selector(state);
+            if (equals(selected, next)) return;
+
+            const prev = selected;
+            selected = next;
+            selectedListener(next, prev);
+        };
+
+        return this.addListener(listener, selectorOptions);
+    }
+
+    /**
+     * Добавить подписчика с приоритетом из опций
      * @returns Функция отписки
      */
-    public subscribe(listener: Listener<T>): () => void {
-        this._listeners.add(listener);
+    private addListener(listener: Listener<T>, options: IListenerOptions = {}): () => void {
+        this._listeners.set(listener, resolvePriority(options.priority ?? 'default'));
         return () => this._listeners.delete(listener);
     }
 
+    /**
+     * Подписаться на каждое применённое изменение состояния.
+     * В отличие от subscribe, хук вызывается синхронно сразу после записи,
+     * без пакетной группировки, и получает исходную ссылку на предыдущее состояние.
+     * @param hook Функция, вызываемая после каждого изменения
+     * @returns Функция отписки
+     */
+    public onCommit(hook: CommitHook<T>): () => void {
+        this._commitHooks.add(hook);
+        return () => this._commitHooks.delete(hook);
+    }
+
+    /**
+     * Подписаться на изменения в виде операций JSON Patch (RFC 6902).
+     * Слушатель вызывается синхронно для каждого примененного изменения
+     * с прямыми и обратными операциями. Значения в операциях разделяются
+     * с состоянием по ссылке и не должны изменяться.
+     * @param listener Функция, получающая прямые и обратные операции
+     * @returns Функция отписки
+     * @example
+     * ```typescript
+     * store.subscribePatches((patches, inversePatches) => {
+     *   socket.send(JSON.stringify(patches));
+     *   undoStack.push(inversePatches);
+     * });
+     * ```
+     */
+    public subscribePatches(listener: PatchListener): () => void {
+        return this.onCommit((state, prev) => {
+            const { patches, inversePatches } = createPatches(prev, state);
+            if (patches.length > 0) {
+                listener(patches, inversePatches);
+            }
+        });
+    }
+
+    /**
+     * Применить операции JSON Patch к состоянию.
+     * Результат проходит через валидаторы и middleware как обычный update.
+     * @param patches Операции для применения
+     * @throws Error если путь операции не существует или операция test не прошла
+     * @example
+     * ```typescript
+     * socket.onmessage = event => store.applyPatches(JSON.parse(event.data));
+     * ```
+     */
+    public applyPatches(patches: JsonPatchOperation[]): void {
+        const next = applyJsonPatches(this._data, patches);
+        // Удаленные поля нельзя передать частичным обновлением, поэтому обновление
+        // применяется к состоянию без них
+        const base = { ...this._data };
+        for (const key in this._data) {
+            if (!(key in next)) {
+                delete base[key];
+            }
+        }
+        this.applyUpdate(base, changedFields(this._data, next), { label: 'applyPatches' });
+    }
+
     /**
      * Проверить обновление без его применения
      * @param update Частичное обновление для проверки
-     * @throws Error если проверка не пройдена
+     * @throws StoreValidationError со списком всех нарушений, если проверка не пройдена
      */
     public validateUpdate(update: Partial<T>): void {
-        for (const validator of this._validators) {
-            const result = validator(update);
-            if (result !== true) {
-                throw new Error(typeof result === 'string' ? result : 'Validation failed');
-            }
+        const issues = this._validators.flatMap((validator) =>
+            typeof validator === 'function' ? toValidationIssues(validator(update)) : [],
+        );
+        if (issues.length > 0) {
+            throw new StoreValidationError(issues);
+        }
+    }
+
+    /**
+     * Проверить итоговое состояние валидаторами состояния без его применения
+     * @param nextState Состояние, которое будет записано
+     * @param prevState Текущее состояние
+     * @param update Исходное частичное обновление
+     * @throws StoreValidationError со списком всех нарушений, если проверка не пройдена
+     */
+    public validateState(nextState: T, prevState: T, update: Partial<T>): void {
+        const issues = this._validators.flatMap((validator) =>
+            typeof validator === 'function'
+                ? []
+                : toValidationIssues(validator.validate(nextState, prevState, update)),
+        );
+        if (issues.length > 0) {
+            throw new StoreValidationError(issues);
         }
     }
 
     /**
      * Обновить состояние, используя функцию обратного вызова
      * @param callback Функция, возвращающая частичное обновление
-     * @throws Error если проверка не пройдена
+     * @param context Описание обновления, например метка для devtools
+     * @throws StoreValidationError если проверка не пройдена
      * @example
      * ```typescript
      * store.update(state => ({
      *   score: state.score + 10,
      *   level: state.level + 1
-     * }));
+     * }), { label: 'level-up' });
      * ```
      */
-    public update(callback: (current: T) => Partial<T>): void {
-        const update = callback(this.state);
+    public update(callback: (current: T) => Partial<T>, context: UpdateContext = {}): void {
+        // Чтения внутри обновления не становятся зависимостями computed и effect
+        const update = unwrapProxies(runTracked(null, () => callback(this.state as T)));
+        this.applyUpdate(this._data, update, context);
+    }
 
-        this.validateUpdate(update);
-        const applyUpdate = (state: T, update: Partial<T>): T => ({ ...state, ...update });
-        let finalState = applyUpdate(this._data, update);
+    /**
+     * Проверить обновление, применить его к состоянию через middleware и записать результат
+     * @param base Состояние, к которому применяется обновление
+     * @param update Частичное обновление
+     * @param context Описание обновления
+     */
+    private applyUpdate(base: T, update: Partial<T>, context: UpdateContext): void {
+        // Внутри batch валидация выполняется один раз при его завершении
+        const deferValidation = Store._batches.length > 0;
 
-        for (const middleware of this._middleware) {
-            finalState = middleware(finalState, update, applyUpdate);
+        if (!deferValidation) {
+            this.validateUpdate(update);
         }
+        const finalState = this.runMiddleware(base, update, context);
 
-        this._prevData = this.safeDeepClone(this._data);
-        this._data = finalState;
-        this.notifyListeners();
+        if (shallowEqual(finalState, this._data)) {
+            return;
+        }
+
+        if (!deferValidation) {
+            this.validateState(finalState, this._data, update);
+        }
+        this.commit(finalState, context);
     }
 
     /**
-     * Выполнить транзакцию, которая может быть отменена
+     * Обновить состояние с ожиданием асинхронных middleware.
+     * Сначала выполняется цепочка асинхронных middleware, затем синхронная.
+     * Если за время ожидания состояние изменилось другими обновлениями,
+     * поверх него записываются только поля, измененные этим обновлением.
+     * @param callback Функция, возвращающая частичное обновление
+     * @param context Описание обновления, например метка для devtools
+     * @throws StoreValidationError если проверка не пройдена
+     * @example
+     * ```typescript
+     * store.addAsyncMiddleware(debounceMiddleware(100));
+     *
+     * await store.updateAsync(state => ({ query: input.value }));
+     * ```
+     */
+    public async updateAsync(
+        callback: (current: T) => Partial<T>,
+        context: UpdateContext = {},
+    ): Promise<void> {
+        const initialState = this._data;
+        // Чтения внутри обновления не становятся зависимостями computed и effect
+        const update = unwrapProxies(runTracked(null, () => callback(this.state as T)));
+        // Внутри batch валидация откладывается, как в update
+        const deferred = Store._batches.length > 0;
+
+        if (!deferred) {
+            this.validateUpdate(update);
+        }
+        const chain = [...this._asyncMiddleware];
+        const dispatch = async (index: number, state: T, update: Partial<T>): Promise<T> => {
+            const middleware = chain[index];
+            if (!middleware) {
+                return this.runMiddleware(state, update, context);
+            }
+            return middleware(
+                state,
+                update,
+                (nextState, nextUpdate) => dispatch(index + 1, nextState, nextUpdate),
+                context,
+            );
+        };
+
+        const result = await dispatch(0, initialState, update);
+        const finalState =
+            this._data === initialState
+                ? result
+                : { ...this._data, ...changedFields(initialState, result) };
+
+        if (shallowEqual(finalState, this._data)) {
+            return;
+        }
+
+        // Если batch уже завершился, отложенная проверка выполняется перед записью
+        if (Store._batches.length === 0) {
+            if (deferred) {
+                this.validateUpdate(update);
+            }
+            this.validateState(finalState, this._data, update);
+        }
+        this.commit(finalState, context);
+    }
+
+    /**
+     * Установить значение по вложенному пути.
+     * Обновление проходит через валидаторы и middleware как обычный update.
+     * @param path Путь к полю в виде кортежа ключей
+     * @param value Новое значение
+     * @example
+     * ```typescript
+     * store.setIn(['player', 'stats', 'hp'], 100);
+     * ```
+     */
+    public setIn<P extends Path<T>>(path: readonly [...P], value: PathValue<T, P>): void {
+        this.updateIn(path, () => value);
+    }
+
+    /**
+     * Обновить значение по вложенному пути с помощью функции.
+     * Обновление проходит через валидаторы и middleware как обычный update.
+     * @param path Путь к полю в виде кортежа ключей
+     * @param updater Функция, получающая текущее значение и возвращающая новое
+     * @example
+     * ```typescript
+     * store.updateIn(['player', 'stats', 'hp'], hp => hp - 10);
+     * ```
+     */
+    public updateIn<P extends Path<T>>(
+        path: readonly [...P],
+        updater: (current: PathValue<T, P>) => PathValue<T, P>,
+    ): void {
+        const [key, ...rest] = path as unknown as [keyof T, ...PropertyKey[]];
+        this.update(
+            () =>
+                ({
+                    [key]: updateAtPath(this._data[key], rest, updater),
+                }) as Partial<T>,
+            { label: `updateIn ${path.join('.')}` },
+        );
+    }
+
+    /**
+     * Обновить состояние, изменяя черновик напрямую.
+     * Изменения записываются со структурным разделением: неизмененные
+     * поддеревья сохраняют прежние ссылки. Обновление проходит через
+     * валидаторы и middleware как обычный update.
+     * @param recipe Функция, изменяющая черновик состояния
+     * @example
+     * ```typescript
+     * store.produce(draft => {
+     *   draft.player.stats.hp -= 1;
+     *   draft.log.push('hit');
+     * });
+     * ```
+     */
+    public produce(recipe: (draft: T) => void): void {
+        this.update(
+            () => {
+                const draft = createDraft(this._data);
+                recipe(draft);
+                const next = finishDraft(draft);
+
+                const update = {} as Partial<T>;
+                for (const key of new Set([...Object.keys(this._data), ...Object.keys(next)])) {
+                    const field = key as keyof T;
+                    if (!Object.is(next[field], this._data[field])) {
+                        update[field] = next[field];
+                    }
+                }
+                return update;
+            },
+            { label: 'produce' },
+        );
+    }
+
+    /**
+     * Выполнить транзакцию, которая может быть отменена.
+     * Применение проходит через валидаторы и middleware внутри batch,
+     * поэтому при ошибке состояние восстанавливается автоматически.
+     * Если задан rollback, после восстановления он применяется к состоянию
+     * на начало транзакции обычным update, а исходная ошибка пробрасывается дальше.
      * @param transaction Объект транзакции с функциями применения и отката
+     * @deprecated Используйте batch
      */
     public transaction(transaction: ITransaction<T>): void {
-        const previousState = this.state;
+        const previousState = this.state as T;
         try {
-            this._prevData = this.safeDeepClone(this._data);
-            this._data = transaction.apply(this.state);
-            this.notifyListeners();
+            this.batch(() => this.update((state) => transaction.apply(state)));
         } catch (error) {
-            this._data = transaction.rollback(previousState);
-            this.notifyListeners();
+            const { rollback } = transaction;
+            if (rollback) {
+                this.update(() => rollback(previousState), { label: 'transaction rollback' });
+            }
             throw error;
         }
     }
 
     /**
-     * Вспомогательный метод для простых транзакций с автоматическим откатом
-     * @param apply Функция, возвращающая новое состояние
+     * Вспомогательный метод для простых транзакций с автоматическим откатом.
+     * Эквивалентен вызову update внутри batch.
+     * @param apply Функция, возвращающая частичное обновление
      * @example
      * ```typescript
      * // Атомарное увеличение счета и уровня
@@ -236,32 +705,225 @@ export class Store<T extends Object> {
      * ```
      */
     public simpleTransaction(apply: (state: T) => Partial<T>): void {
-        const update = apply(this.state);
-        const previousValues = {} as Partial<T>;
-        
-        Object.keys(update).forEach(key => {
-            previousValues[key as keyof T] = this.state[key as keyof T];
-        });
+        this.batch(() => this.update(apply));
+    }
+
+    /**
+     * Выполнить несколько изменений атомарно.
+     * Валидаторы всех затронутых хранилищ проверяют итоговые изменения в конце,
+     * при любой ошибке все хранилища возвращаются к состоянию на начало batch,
+     * а подписчики получают ровно одно уведомление.
+     * Вложенный batch работает как точка сохранения: его ошибку можно перехватить,
+     * не потеряв изменения внешнего batch.
+     * @param fn Синхронная функция с изменениями
+     * @returns Результат fn
+     * @example
+     * ```typescript
+     * store.batch(() => {
+     *   store.update(state => ({ gold: state.gold - item.price }));
+     *   store.update(state => ({ items: [...state.items, item] }));
+     * });
+     * ```
+     */
+    public batch<R>(fn: () => R): R {
+        return Store.batch(fn);
+    }
+
+    /**
+     * Выполнить несколько изменений в любых хранилищах атомарно.
+     * Подробности в описании метода batch экземпляра.
+     * @param fn Синхронная функция с изменениями
+     * @returns Результат fn
+     */
+    public static batch<R>(fn: () => R): R {
+        const frame = new Map<Store<any>, IBatchEntry>();
+        Store._batches.push(frame);
+
+        let result: R;
+        try {
+            result = fn();
+            frame.forEach((entry, store) => store.validateChanges(entry.snapshot));
+        } catch (error) {
+            Store._batches.pop();
+            frame.forEach((entry, store) => {
+                store._data = entry.snapshot;
+            });
+            throw error;
+        }
 
-        this.transaction({
-            apply: state => ({ ...state, ...update }),
-            rollback: state => ({ ...state, ...previousValues })
+        Store._batches.pop();
+        const parent = Store._batches[Store._batches.length - 1];
+        frame.forEach((entry, store) => {
+            const parentEntry = parent?.get(store);
+            if (!parent) {
+                const context =
+                    entry.contexts.length === 1 ? entry.contexts[0] : { label: 'batch' };
+                store.publish(entry.snapshot, context);
+            } else if (parentEntry) {
+                parentEntry.contexts.push(...entry.contexts);
+            } else {
+                parent.set(store, entry);
+            }
         });
+        return result;
+    }
+
+    /**
+     * Создать срез хранилища: хранилище с частью состояния, которое можно
+     * передать подсистеме вместо всего хранилища.
+     * Изменения среза записываются в родительское хранилище, а слушатели среза
+     * вызываются только при изменении его части состояния.
+     * @param key Поле состояния, значение которого становится состоянием среза
+     * @param options Middleware и валидаторы среза
+     * @returns Срез хранилища
+     * @example
+     * ```typescript
+     * const player = gameStore.slice('player');
+     * player.update(p => ({ hp: p.hp - 10 })); // gameStore.state.player.hp уменьшится
+     *
+     * const stats = player.slice('stats');
+     * ```
+     */
+    public slice<K extends SliceKey<T>>(
+        key: K,
+        options?: IStoreOptions<T[K] & object>,
+    ): ISliceStore<T[K] & object>;
+    /**
+     * Создать срез хранилища с произвольным отображением состояния
+     * @param selector Функция выбора состояния среза
+     * @param setter Функция, возвращающая обновление родительского состояния по новому срезу
+     * @param options Middleware и валидаторы среза
+     * @returns Срез хранилища
+     * @example
+     * ```typescript
+     * const vitals = gameStore.slice(
+     *   state => ({ hp: state.player.hp, mana: state.mana }),
+     *   (state, vitals) => ({ player: { ...state.player, hp: vitals.hp }, mana: vitals.mana })
+     * );
+     * ```
+     */
+    public slice<S extends object>(
+        selector: Selector<T, S>,
+        setter: SliceSetter<T, S>,
+        options?: IStoreOptions<S>,
+    ): ISliceStore<S>;
+    public slice<S extends object>(
+        keyOrSelector: keyof T | Selector<T, S>,
+        setterOrOptions?: SliceSetter<T, S> | IStoreOptions<S>,
+        options?: IStoreOptions<S>,
+    ): ISliceStore<S> {
+        if (typeof keyOrSelector !== 'function') {
+            const key = keyOrSelector;
+            return new SliceStore<T, S>(
+                this,
+                () => this._data,
+                (state) => state[key] as unknown as S,
+                (_state, slice) => ({ [key]: slice }) as unknown as Partial<T>,
+                setterOrOptions as IStoreOptions<S>,
+            );
+        }
+
+        return new SliceStore<T, S>(
+            this,
+            () => this._data,
+            keyOrSelector,
+            setterOrOptions as SliceSetter<T, S>,
+            options,
+        );
     }
 
     /**
      * Сбросить хранилище к начальному состоянию
      * @param initialData Начальные данные для сброса
+     * @param context Контекст изменения для хуков onCommit (по умолчанию метка 'reset')
      */
-    public reset(initialData: T = {} as T): void {
-        this._prevData = this.safeDeepClone(this._data);
-        this._data = initialData;
-        this.notifyListeners();
+    public reset(initialData: T = {} as T, context: UpdateContext = { label: 'reset' }): void {
+        this.commit(initialData, context);
+    }
+
+    /**
+     * Заменить реализацию хранилища, сохранив его состояние и подписчиков.
+     * Хранилище получает прототип (методы подкласса), middleware, валидаторы,
+     * режим доступа и планировщик из next, поэтому все ссылки на него остаются рабочими.
+     * Собственные поля подкласса остаются прежними: они описывают текущее состояние.
+     * Подписчики next переносятся в это хранилище, а поля состояния,
+     * которых еще нет, берутся из начального состояния next.
+     * @param next Хранилище с новой реализацией
+     * @example
+     * ```typescript
+     * import.meta.hot?.accept(module => {
+     *   gameStore.replaceImplementation(module.createGameStore());
+     * });
+     * ```
+     */
+    public replaceImplementation(next: Store<T>): void {
+        if (next === this) {
+            return;
+        }
+
+        Object.setPrototypeOf(this, Object.getPrototypeOf(next));
+        this.adoptImplementation(next);
+
+        next._listeners.forEach((priority, listener) => this._listeners.set(listener, priority));
+        next._commitHooks.forEach((hook) => this._commitHooks.add(hook));
+        next._listeners.clear();
+        next._commitHooks.clear();
+
+        const hasNewFields = Object.keys(next._data).some((key) => !(key in this._data));
+        if (hasNewFields) {
+            this.commit({ ...next._data, ...this._data }, { label: 'hot-replace' });
+        }
+    }
+
+    /**
+     * Перенести из другого хранилища поля, которые задает реализация
+     * @param next Хранилище с новой реализацией
+     */
+    private adoptImplementation(next: Store<T>): void {
+        this._middleware = [...next._middleware];
+        this._asyncMiddleware = [...next._asyncMiddleware];
+        this._validators = [...next._validators];
+        this._serializer = next._serializer;
+        this._mode = next._mode;
+        this._scheduler = next._scheduler;
+    }
+
+    /**
+     * Получить состояние в виде данных для JSON.stringify.
+     * Map, Set, Date и классы с кодеками кодируются сериализатором хранилища.
+     * @returns Закодированное состояние
+     * @example
+     * ```typescript
+     * localStorage.setItem('game', JSON.stringify(store));
+     * store.fromJSON(localStorage.getItem('game')!);
+     * ```
+     */
+    public toJSON(): unknown {
+        return this._serializer.encode(this._data);
+    }
+
+    /**
+     * Восстановить состояние из строки JSON или данных, полученных от toJSON.
+     * Состояние проходит валидаторы, middleware не применяются.
+     * @param json Строка JSON или закодированное состояние
+     * @param context Контекст изменения для хуков onCommit (по умолчанию метка 'fromJSON')
+     * @throws StoreValidationError если проверка не пройдена
+     */
+    public fromJSON(json: unknown, context: UpdateContext = { label: 'fromJSON' }): void {
+        const state =
+            typeof json === 'string'
+                ? this._serializer.parse<T>(json)
+                : this._serializer.decode<T>(json);
+
+        this.validateUpdate(state);
+        this.validateState(state, this._data, state);
+        this.commit(state, context);
     }
 
     /**
-     * Клонирует текущее состояние хранилища. Использует safeDeepClone для глубокого копирования.
-     * 
+     * Клонирует текущее состояние хранилища. Использует сериализатор хранилища для глубокого копирования
+     * с сохранением Map, Set, Date, типизированных массивов и циклических ссылок.
+     *
      * @returns Глубокая копия текущего состояния
      */
     public cloneState(): T {
@@ -269,59 +931,212 @@ export class Store<T extends Object> {
     }
 
     /**
-     * Клонирует предыдущее состояние хранилища. Использует safeDeepClone для глубокого копирования.
-     * 
+     * Клонирует предыдущее состояние хранилища. Использует сериализатор хранилища для глубокого копирования.
+     *
      * @returns Глубокая копия предыдущего состояния
      */
     public clonePrevState(): T {
         return this.safeDeepClone(this._prevData);
     }
 
-    private safeDeepClone = (obj: any): any => {
-        if (obj === null || typeof obj !== 'object') {
-            return obj;
+    /**
+     * Записать новое состояние, вызвать хуки onCommit и запланировать уведомление подписчиков.
+     * Единая точка, через которую проходят update, transaction и reset.
+     * Внутри batch публикация откладывается до его завершения.
+     * В режиме 'development' записанное состояние глубоко замораживается.
+     * @param next Новое состояние
+     * @param context Описание источника изменения
+     */
+    protected commit(next: T, context: UpdateContext = {}): void {
+        if (this.mode === 'development') {
+            deepFreeze(next);
         }
 
-        if (Array.isArray(obj)) {
-            return obj.map(item => this.safeDeepClone(item));
+        const frame = Store._batches[Store._batches.length - 1];
+        if (frame) {
+            const entry = frame.get(this) ?? { snapshot: this._data, contexts: [] };
+            entry.contexts.push(context);
+            frame.set(this, entry);
+            this._data = next;
+            return;
         }
 
-        const cloned: any = {};
-        for (const key in obj) {
-            if (Object.prototype.hasOwnProperty.call(obj, key)) {
-                try {
-                    cloned[key] = this.safeDeepClone(obj[key]);
-                } catch (e) {
-                    console.warn(`Failed to clone property ${key}`, e);
-                    cloned[key] = obj[key]; 
-                }
-            }
+        const previous = this._data;
+        this._data = next;
+        this.publish(previous, context);
+    }
+
+    /**
+     * Сообщить о записанном состоянии хукам onCommit и подписчикам
+     * @param previous Состояние до изменения
+     * @param context Описание источника изменения
+     */
+    private publish(previous: T, context: UpdateContext): void {
+        if (this._data === previous) {
+            return;
+        }
+
+        this._prevData = previous;
+        this._commitHooks.forEach((hook) => hook(this._data, previous, context));
+        this.notifyListeners();
+    }
+
+    /**
+     * Проверить валидаторами все изменения, накопленные с момента snapshot
+     * @param snapshot Состояние на начало batch
+     */
+    private validateChanges(snapshot: T): void {
+        if (this._data === snapshot) {
+            return;
         }
-        return cloned;
+
+        const update = changedFields(snapshot, this._data);
+        this.validateUpdate(update);
+        this.validateState(this._data, snapshot, update);
+    }
+
+    /**
+     * Пропустить обновление через цепочку синхронных middleware.
+     * Последнее звено цепочки объединяет состояние с обновлением.
+     * @param state Состояние, к которому применяется обновление
+     * @param update Частичное обновление
+     * @param context Описание источника изменения
+     * @returns Итоговое состояние
+     */
+    private runMiddleware(state: T, update: Partial<T>, context: UpdateContext): T {
+        const chain = [...this._middleware];
+        const dispatch = (index: number, state: T, update: Partial<T>): T => {
+            const middleware = chain[index];
+            if (!middleware) {
+                return { ...state, ...update };
+            }
+            return middleware(
+                state,
+                update,
+                (nextState, nextUpdate) => dispatch(index + 1, nextState, nextUpdate),
+                context,
+            );
+        };
+        return dispatch(0, state, update);
+    }
+
+    private safeDeepClone = (obj: any): any => {
+        return this._serializer.clone(obj);
     };
 
+    /**
+     * Запланировать уведомление подписчиков: по одной задаче на каждый приоритет,
+     * чтобы подписчики разных хранилищ вызывались в порядке приоритетов
+     */
     private notifyListeners(): void {
-        if (Store._isNotifying) {
-            Store._pendingNotifications.add(this);
+        const scheduler = this.scheduler;
+        new Set(this._listeners.values()).forEach((priority) =>
+            scheduler.schedule(this.notificationJob(priority), priority),
+        );
+    }
+
+    /**
+     * Получить задачу уведомления подписчиков с указанным приоритетом.
+     * Задача одна на приоритет, поэтому несколько изменений до flush дают одно уведомление
+     * @param priority Числовой приоритет подписчиков
+     */
+    private notificationJob(priority: number): SchedulerJob {
+        let job = this._notificationJobs.get(priority);
+        if (!job) {
+            job = () =>
+                this._listeners.forEach((listenerPriority, listener) => {
+                    if (listenerPriority === priority) {
+                        listener(this._data, this._prevData);
+                    }
+                });
+            this._notificationJobs.set(priority, job);
+        }
+        return job;
+    }
+}
+
+/**
+ * Срез хранилища. Родительское хранилище остается источником истины:
+ * его изменения приходят через onCommit, а изменения среза записываются
+ * в родителя через update внутри одного batch.
+ */
+class SliceStore<P extends object, S extends object> extends Store<S> implements ISliceStore<S> {
+    private _mirroring = false;
+    private _attached = true;
+    private _unsubscribe: () => void;
+
+    constructor(
+        private _parent: Store<P>,
+        private _read: () => P,
+        private _selector: Selector<P, S>,
+        private _setter: SliceSetter<P, S>,
+        options?: IStoreOptions<S>,
+    ) {
+        super(_selector(_read()), options);
+        this._unsubscribe = _parent.onCommit((state, _prev, context) =>
+            this.mirror(_selector(state), context),
+        );
+    }
+
+    /**
+     * Отключить срез от родительского хранилища
+     */
+    public cleanup(): void {
+        this._attached = false;
+        this._unsubscribe();
+    }
+
+    /**
+     * Изменения среза проходят его middleware и валидаторы, а затем middleware
+     * и валидаторы родителя. Если родитель отклонил изменение, откатываются оба.
+     */
+    protected commit(next: S, context: UpdateContext = {}): void {
+        if (this._mirroring || !this._attached) {
+            super.commit(next, context);
             return;
         }
 
-        if (!Store._notificationScheduled) {
-            Store._notificationScheduled = true;
-            queueMicrotask(() => {
-                Store._isNotifying = true;
-                try {
-                    Store._pendingNotifications.forEach(store => {
-                        store._listeners.forEach(listener => listener(store._data, store._prevData));
-                    });
-                } finally {
-                    Store._isNotifying = false;
-                    Store._notificationScheduled = false;
-                    Store._pendingNotifications.clear();
-                }
-            });
+        Store.batch(() => {
+            super.commit(next, context);
+            this._parent.update((state) => this._setter(state, next), context);
+            // Middleware родителя могли изменить записанный срез
+            this.mirror(this._selector(this._read()), context);
+        });
+    }
+
+    /**
+     * Перенести изменение родителя в срез, если выбранная часть изменилась
+     */
+    private mirror(next: S, context: UpdateContext): void {
+        if (shallowEqual(next, this.rawState)) {
+            return;
         }
 
-        Store._pendingNotifications.add(this);
+        this._mirroring = true;
+        try {
+            this.commit(next, context);
+        } finally {
+            this._mirroring = false;
+        }
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Выполнить несколько изменений в одном или нескольких хранилищах атомарно.
+ * Валидация выполняется в конце, при ошибке все хранилища откатываются,
+ * подписчики получают одно уведомление.
+ *
+ * @example
+ * ```typescript
+ * batch(() => {
+ *   inventoryStore.update(state => ({ items: [...state.items, sword] }));
+ *   walletStore.update(state => ({ gold: state.gold - sword.price }));
+ * });
+ * ```
+ *
+ * @param fn Синхронная функция с изменениями
+ * @returns Результат fn
+ */
+export function batch<R>(fn: () => R): R {
+    return Store.batch(fn);
+}
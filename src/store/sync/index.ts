@@ -0,0 +1,3 @@
+export * from './types';
+export * from './transports';
+export * from './sync';
@@ -0,0 +1,175 @@
+import { MessageChannel } from 'node:worker_threads';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Store } from '../store';
+import { syncStore } from './sync';
+import { MessagePortTransport, WorkerThreadsTransport } from './transports';
+import { ISyncTransport, SyncMessage, SyncRef } from './types';
+
+interface IWorldState {
+    tick: number;
+    world: { size: number };
+    debug: boolean;
+}
+
+/**
+ * Общая шина в памяти: сообщения копируются, как при передаче между контекстами
+ */
+function createBus() {
+    const listeners = new Set<(message: SyncMessage) => void>();
+    return (): ISyncTransport => {
+        const own = new Set<(message: SyncMessage) => void>();
+        return {
+            post(message) {
+                const copy = structuredClone(message);
+                listeners.forEach((listener) => !own.has(listener) && listener(copy));
+            },
+            subscribe(listener) {
+                own.add(listener);
+                listeners.add(listener);
+                return () => {
+                    own.delete(listener);
+                    listeners.delete(listener);
+                };
+            },
+        };
+    };
+}
+
+function createState(tick = 0): IWorldState {
+    return { tick, world: { size: 10 }, debug: false };
+}
+
+const refs: SyncRef[] = [];
+const track = (ref: SyncRef) => {
+    refs.push(ref);
+    return ref;
+};
+
+afterEach(() => {
+    refs.splice(0).forEach((ref) => ref.dispose());
+    vi.useRealTimers();
+});
+
+describe('syncStore', () => {
+    it('sends the leader state to a follower on connect', async () => {
+        const transport = createBus();
+        const leader = new Store(createState(5));
+        const follower = new Store(createState());
+
+        track(syncStore(leader, { transport: transport(), mode: 'leader' }));
+        const ref = track(syncStore(follower, { transport: transport(), mode: 'follower' }));
+
+        await ref.ready;
+        expect(follower.state.tick).toBe(5);
+    });
+
+    it('rejects ready when no leader answers the follower', async () => {
+        vi.useFakeTimers();
+        const transport = createBus();
+        const follower = new Store(createState());
+        const ref = track(
+            syncStore(follower, {
+                transport: transport(),
+                mode: 'follower',
+                handshakeTimeout: 100,
+            }),
+        );
+        const ready = expect(ref.ready).rejects.toThrow(
+            'No leader answered on channel "store" within 100 ms',
+        );
+
+        vi.advanceTimersByTime(100);
+        await ready;
+
+        track(syncStore(new Store(createState(3)), { transport: transport(), mode: 'leader' }));
+        expect(follower.state.tick).toBe(3);
+    });
+
+    it('applies remote changes without echo and keeps unchanged subtrees', () => {
+        const transport = createBus();
+        const a = new Store(createState());
+        const b = new Store(createState());
+        const labels: Array<string | undefined> = [];
+        let posted = 0;
+        const bTransport = transport();
+        const post = bTransport.post.bind(bTransport);
+        bTransport.post = (message) => {
+            posted++;
+            post(message);
+        };
+
+        track(syncStore(a, { transport: transport() }));
+        track(syncStore(b, { transport: bTransport }));
+        b.onCommit((_state, _prev, context) => labels.push(context.label));
+        posted = 0;
+        const world = b.rawState.world;
+
+        a.update(() => ({ tick: 1 }));
+
+        expect(b.state.tick).toBe(1);
+        expect(b.rawState.world).toBe(world);
+        expect(labels).toEqual(['sync']);
+        expect(posted).toBe(0);
+    });
+
+    it('synchronizes only included keys', () => {
+        const transport = createBus();
+        const a = new Store(createState());
+        const b = new Store(createState());
+
+        track(syncStore(a, { transport: transport(), exclude: ['debug'] }));
+        track(syncStore(b, { transport: transport(), exclude: ['debug'] }));
+
+        a.update(() => ({ tick: 2, debug: true }));
+        expect(b.state.tick).toBe(2);
+        expect(b.state.debug).toBe(false);
+    });
+
+    it('sends the actual state back when the leader rejects an update', () => {
+        const transport = createBus();
+        const onError = vi.fn();
+        const leader = new Store(createState(), {
+            validators: [(update) => (update.tick === -1 ? 'Tick must not be negative' : true)],
+        });
+        const follower = new Store(createState());
+
+        track(syncStore(leader, { transport: transport(), mode: 'leader', onError }));
+        track(syncStore(follower, { transport: transport(), mode: 'follower' }));
+
+        follower.update(() => ({ tick: -1 }));
+
+        expect(onError).toHaveBeenCalledOnce();
+        expect(leader.state.tick).toBe(0);
+        expect(follower.state.tick).toBe(0);
+    });
+
+    it('stops synchronizing after dispose', () => {
+        const transport = createBus();
+        const a = new Store(createState());
+        const b = new Store(createState());
+
+        track(syncStore(a, { transport: transport() }));
+        syncStore(b, { transport: transport() }).dispose();
+
+        a.update(() => ({ tick: 3 }));
+        expect(b.state.tick).toBe(0);
+    });
+
+    it('works over MessagePort and worker_threads ports', async () => {
+        const { port1, port2 } = new MessageChannel();
+        const leader = new Store(createState(7));
+        const follower = new Store(createState());
+
+        track(syncStore(leader, { transport: new WorkerThreadsTransport(port1), mode: 'leader' }));
+        const ref = track(
+            syncStore(follower, {
+                transport: new MessagePortTransport(port2 as never),
+                mode: 'follower',
+            }),
+        );
+
+        await ref.ready;
+        expect(follower.state.tick).toBe(7);
+        port1.close();
+    });
+});
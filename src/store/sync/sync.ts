@@ -0,0 +1,233 @@
+import { Store } from '../store';
+import { deepEqual } from '../equality';
+import { ISyncOptions, SyncMessage, SyncRef } from './types';
+
+let nextParticipantId = 0;
+
+const createParticipantId = (): string =>
+    `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}-${nextParticipantId++}`;
+
+/**
+ * Синхронизирует хранилище с хранилищами в других контекстах: вкладках,
+ * воркерах или потоках worker_threads.
+ *
+ * Возможности:
+ * - Режимы leader/follower и peer
+ * - Получение начального состояния при подключении
+ * - Защита от эха: полученные изменения не отправляются обратно
+ * - Белый и черный списки синхронизируемых ключей
+ * - Несколько хранилищ на одном транспорте через разные каналы
+ *
+ * В режиме leader изменения ведомых проходят через update ведущего, то есть через
+ * его middleware и валидаторы, и рассылаются всем участникам. Если ведущий отклонил
+ * изменение, ведомый получает актуальный снимок. Полученные ведомыми и равноправными
+ * участниками изменения применяются через reset с меткой 'sync'.
+ * Если ведущий не ответил ведомому за handshakeTimeout, ready отклоняется,
+ * но ведомый продолжает ждать и примет состояние ведущего, когда тот подключится.
+ *
+ * @example
+ * ```typescript
+ * // Симуляция в воркере - источник истины
+ * const sync = syncStore(simulationStore, {
+ *   transport: new WorkerThreadsTransport(parentPort!),
+ *   mode: 'leader',
+ *   exclude: ['debugOverlay']
+ * });
+ *
+ * // Рендер в основном потоке - зеркало
+ * const mirror = syncStore(renderStore, {
+ *   transport: new WorkerThreadsTransport(worker),
+ *   mode: 'follower',
+ *   exclude: ['debugOverlay']
+ * });
+ * await mirror.ready;
+ * ```
+ *
+ * @param store - Синхронизируемое хранилище
+ * @param options - Транспорт, режим и синхронизируемые ключи
+ * @returns Объект SyncRef для управления синхронизацией
+ */
+export function syncStore<T extends object>(store: Store<T>, options: ISyncOptions<T>): SyncRef {
+    const { transport, mode = 'peer', channel = 'store', handshakeTimeout = 500 } = options;
+    const onError =
+        options.onError ??
+        ((error) => console.warn(`Failed to apply synced state on channel "${channel}"`, error));
+
+    const id = createParticipantId();
+    let applying = false;
+    let synced = mode === 'leader';
+    let disposed = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let resolveReady: () => void = () => undefined;
+    let rejectReady: (error: Error) => void = () => undefined;
+
+    const ready = synced
+        ? Promise.resolve()
+        : new Promise<void>((resolve, reject) => {
+              resolveReady = resolve;
+              rejectReady = reject;
+          });
+    // Отказ ожидания ведущего не считается необработанным, даже если ready никто не ждет
+    ready.catch(() => undefined);
+
+    const markSynced = () => {
+        synced = true;
+        if (timer !== undefined) {
+            clearTimeout(timer);
+            timer = undefined;
+        }
+        resolveReady();
+    };
+
+    const pickKeys = (state: Partial<T>): Partial<T> => {
+        const picked = {} as Partial<T>;
+        for (const field in state) {
+            if (options.include && !options.include.includes(field)) continue;
+            if (options.exclude && options.exclude.includes(field)) continue;
+            picked[field] = state[field];
+        }
+        return picked;
+    };
+
+    /** Оставить только общие ключи, значения которых отличаются от текущих */
+    const diffWithCurrent = (incoming: Partial<T>): Partial<T> | null => {
+        const current = store.rawState;
+        const changes = {} as Partial<T>;
+        let changed = false;
+        const shared = pickKeys(incoming);
+        for (const field in shared) {
+            if (!deepEqual(current[field], shared[field])) {
+                changes[field] = shared[field];
+                changed = true;
+            }
+        }
+        return changed ? changes : null;
+    };
+
+    const post = (message: SyncMessage<T>) => {
+        if (!disposed) {
+            transport.post(message);
+        }
+    };
+
+    const postState = (to?: string) => {
+        post({ type: 'state', channel, from: id, mode, state: pickKeys(store.rawState), to });
+    };
+
+    const applyRemote = (incoming: Partial<T>) => {
+        const changes = diffWithCurrent(incoming);
+        if (!changes) return;
+
+        applying = true;
+        try {
+            store.reset({ ...store.rawState, ...changes }, { label: 'sync' });
+        } finally {
+            applying = false;
+        }
+    };
+
+    const acceptUpdate = (message: Extract<SyncMessage<T>, { type: 'update' }>) => {
+        if (mode === 'leader') {
+            const changes = diffWithCurrent(message.changes);
+            if (!changes) return;
+
+            try {
+                store.update(() => changes, { label: 'sync' });
+            } catch (error) {
+                onError(error);
+                postState(message.from);
+            }
+            return;
+        }
+
+        if (mode === 'follower' && message.mode !== 'leader') return;
+        applyRemote(message.changes);
+    };
+
+    const acceptState = (message: Extract<SyncMessage<T>, { type: 'state' }>) => {
+        if (mode === 'leader') return;
+        if (mode === 'follower' && message.mode !== 'leader') return;
+
+        applyRemote(message.state);
+        markSynced();
+    };
+
+    const handleMessage = (message: SyncMessage<T>) => {
+        if (disposed || message?.channel !== channel || message.from === id) return;
+
+        try {
+            switch (message.type) {
+                case 'hello':
+                    if (mode === 'leader' || (mode === 'peer' && synced)) {
+                        postState(message.from);
+                    }
+                    break;
+                case 'state':
+                    if (message.to === undefined || message.to === id) {
+                        acceptState(message);
+                    }
+                    break;
+                case 'update':
+                    acceptUpdate(message);
+                    break;
+            }
+        } catch (error) {
+            onError(error);
+        }
+    };
+
+    const unsubscribeTransport = transport.subscribe(handleMessage);
+
+    const unsubscribeStore = store.onCommit((state, prev) => {
+        if (applying) return;
+
+        const changes = {} as Partial<T>;
+        let changed = false;
+        const shared = pickKeys(state);
+        for (const field in shared) {
+            if (!Object.is(shared[field], prev[field])) {
+                changes[field] = shared[field];
+                changed = true;
+            }
+        }
+
+        if (changed) {
+            post({ type: 'update', channel, from: id, mode, changes });
+        }
+    });
+
+    if (mode === 'leader') {
+        postState();
+    } else {
+        post({ type: 'hello', channel, from: id, mode });
+        timer = setTimeout(() => {
+            timer = undefined;
+            if (mode === 'peer') {
+                markSynced();
+            } else {
+                rejectReady(
+                    new Error(
+                        `No leader answered on channel "${channel}" within ${handshakeTimeout} ms`,
+                    ),
+                );
+            }
+        }, handshakeTimeout);
+    }
+
+    return {
+        ready,
+        broadcast: () => postState(),
+        dispose() {
+            if (disposed) return;
+
+            disposed = true;
+            unsubscribeStore();
+            unsubscribeTransport();
+            transport.close?.();
+            if (timer !== undefined) {
+                clearTimeout(timer);
+                timer = undefined;
+            }
+        },
+    };
+}
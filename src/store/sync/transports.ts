@@ -0,0 +1,106 @@
+import { ISyncTransport, SyncMessage } from './types';
+
+/** Порт с интерфейсом MessagePort из браузера или Node */
+export interface IMessagePortLike {
+    postMessage(message: unknown): void;
+    addEventListener(type: 'message', listener: (event: { data: unknown }) => void): void;
+    removeEventListener(type: 'message', listener: (event: { data: unknown }) => void): void;
+    start?(): void;
+}
+
+/** Цель с интерфейсом EventEmitter из worker_threads: Worker, parentPort или MessagePort */
+export interface IWorkerThreadsTarget {
+    postMessage(message: unknown): void;
+    on(event: 'message', listener: (message: unknown) => void): unknown;
+    off(event: 'message', listener: (message: unknown) => void): unknown;
+}
+
+/**
+ * Транспорт через BroadcastChannel. Связывает вкладки, iframe и воркеры одного источника.
+ * Если передано название, канал создается транспортом и закрывается при отключении.
+ *
+ * @example
+ * ```typescript
+ * syncStore(store, { transport: new BroadcastChannelTransport('game') });
+ * ```
+ */
+export class BroadcastChannelTransport implements ISyncTransport {
+    private _channel: BroadcastChannel;
+    private _owned: boolean;
+
+    constructor(channel: string | BroadcastChannel) {
+        this._owned = typeof channel === 'string';
+        this._channel = typeof channel === 'string' ? new BroadcastChannel(channel) : channel;
+    }
+
+    public post(message: SyncMessage): void {
+        this._channel.postMessage(message);
+    }
+
+    public subscribe(listener: (message: SyncMessage) => void): () => void {
+        const handler = (event: MessageEvent) => listener(event.data);
+        this._channel.addEventListener('message', handler);
+        return () => this._channel.removeEventListener('message', handler);
+    }
+
+    public close(): void {
+        if (this._owned) {
+            this._channel.close();
+        }
+    }
+}
+
+/**
+ * Транспорт через MessagePort, например порт из MessageChannel или порт,
+ * переданный в воркер. Порт не закрывается транспортом.
+ *
+ * @example
+ * ```typescript
+ * const { port1, port2 } = new MessageChannel();
+ * syncStore(mainStore, { transport: new MessagePortTransport(port1), mode: 'leader' });
+ * syncStore(workerStore, { transport: new MessagePortTransport(port2), mode: 'follower' });
+ * ```
+ */
+export class MessagePortTransport implements ISyncTransport {
+    constructor(private _port: IMessagePortLike) {}
+
+    public post(message: SyncMessage): void {
+        this._port.postMessage(message);
+    }
+
+    public subscribe(listener: (message: SyncMessage) => void): () => void {
+        const handler = (event: { data: unknown }) => listener(event.data as SyncMessage);
+        this._port.addEventListener('message', handler);
+        this._port.start?.();
+        return () => this._port.removeEventListener('message', handler);
+    }
+}
+
+/**
+ * Транспорт для Node worker_threads: Worker в основном потоке или parentPort внутри воркера
+ *
+ * @example
+ * ```typescript
+ * // main.ts
+ * const worker = new Worker('./simulation.js');
+ * syncStore(renderStore, { transport: new WorkerThreadsTransport(worker), mode: 'follower' });
+ *
+ * // simulation.ts
+ * syncStore(simulationStore, { transport: new WorkerThreadsTransport(parentPort!), mode: 'leader' });
+ * ```
+ */
+export class WorkerThreadsTransport implements ISyncTransport {
+    constructor(private _target: IWorkerThreadsTarget) {}
+
+    public post(message: SyncMessage): void {
+        this._target.postMessage(message);
+    }
+
+    public subscribe(listener: (message: SyncMessage) => void): () => void {
+        const handler = (message: unknown) => listener(message as SyncMessage);
+        this._target.on('message', handler);
+        return () => {
+            this._target.off('message', handler);
+        };
+    }
+}
@@ -0,0 +1,95 @@
+/**
+ * Роль хранилища при синхронизации:
+ * - leader - источник истины, применяет изменения ведомых и рассылает результат
+ * - follower - зеркало ведущего, свои изменения отправляет ведущему
+ * - peer - равноправный участник, изменения любого участника применяются всеми
+ */
+export type SyncMode = 'leader' | 'follower' | 'peer';
+
+/**
+ * Сообщение протокола синхронизации
+ *
+ * @template T Тип состояния хранилища
+ */
+export type SyncMessage<T = object> =
+    /** Запрос начального состояния при подключении */
+    | { type: 'hello'; channel: string; from: string; mode: SyncMode }
+    /** Полный снимок общих ключей */
+    | {
+          type: 'state';
+          channel: string;
+          from: string;
+          mode: SyncMode;
+          state: Partial<T>;
+          to?: string;
+      }
+    /** Изменившиеся общие ключи */
+    | { type: 'update'; channel: string; from: string; mode: SyncMode; changes: Partial<T> };
+
+/**
+ * Транспорт, по которому участники синхронизации обмениваются сообщениями.
+ * Сообщения должны передаваться структурным клонированием или аналогом.
+ *
+ * @example
+ * ```typescript
+ * const transport: ISyncTransport = {
+ *   post: message => socket.send(JSON.stringify(message)),
+ *   subscribe: listener => {
+ *     const handler = (event: MessageEvent) => listener(JSON.parse(event.data));
+ *     socket.addEventListener('message', handler);
+ *     return () => socket.removeEventListener('message', handler);
+ *   }
+ * };
+ * ```
+ */
+export interface ISyncTransport {
+    post(message: SyncMessage): void;
+    subscribe(listener: (message: SyncMessage) => void): () => void;
+    /** Освободить ресурсы транспорта при отключении синхронизации */
+    close?(): void;
+}
+
+/**
+ * Опции синхронизации хранилища между контекстами
+ *
+ * @example
+ * ```typescript
+ * const options: ISyncOptions<GameState> = {
+ *   transport: new WorkerThreadsTransport(parentPort),
+ *   mode: 'leader',
+ *   exclude: ['isMenuOpen']
+ * };
+ * ```
+ *
+ * @template T Тип состояния хранилища
+ */
+export interface ISyncOptions<T> {
+    transport: ISyncTransport;
+    /** Роль хранилища (по умолчанию 'peer') */
+    mode?: SyncMode;
+    /** Название канала, позволяет синхронизировать несколько хранилищ через один транспорт */
+    channel?: string;
+    /** Синхронизировать только перечисленные ключи */
+    include?: Array<keyof T>;
+    /** Не синхронизировать перечисленные ключи */
+    exclude?: Array<keyof T>;
+    /**
+     * Время ожидания начального состояния в миллисекундах (по умолчанию 500).
+     * Если никто не ответил, в режиме peer хранилище считается первым участником,
+     * а в режиме follower ready отклоняется с ошибкой.
+     */
+    handshakeTimeout?: number;
+    /** Обработчик ошибок применения полученных изменений */
+    onError?: (error: unknown) => void;
+}
+
+export interface SyncRef {
+    /**
+     * Промис, который разрешается после получения начального состояния.
+     * У ведомого отклоняется, если ведущий не ответил за handshakeTimeout
+     */
+    readonly ready: Promise<void>;
+    /** Отправить всем участникам полный снимок общих ключей */
+    broadcast: () => void;
+    dispose: () => void;
+}
@@ -0,0 +1,33 @@
+/**
+ * Получить поля, значения которых отличаются в двух состояниях
+ * @param prev Исходное состояние
+ * @param next Новое состояние
+ */
+export function changedFields<T extends object>(prev: T, next: T): Partial<T> {
+    const changed = {} as Partial<T>;
+    for (const key in next) {
+        if (!Object.is(next[key], prev[key])) {
+            changed[key] = next[key];
+        }
+    }
+    return changed;
+}
+
+/**
+ * Глубоко заморозить объект. Уже замороженные поддеревья и типизированные массивы пропускаются.
+ * @param value Замораживаемое значение
+ */
+export function deepFreeze<V>(value: V): V {
+    if (
+        typeof value !== 'object' ||
+        value === null ||
+        Object.isFrozen(value) ||
+        ArrayBuffer.isView(value)
+    ) {
+        return value;
+    }
+
+    Object.freeze(value);
+    Object.values(value).forEach(deepFreeze);
+    return value;
+}
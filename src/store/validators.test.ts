@@ -0,0 +1,229 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Store } from './store';
+import { mixStores } from './store-mixer';
+import { StoreValidationError } from './errors';
+import {
+    customValidator,
+    enumValidator,
+    fieldValidators,
+    lengthValidator,
+    numberRangeValidator,
+    patternValidator,
+    rangeValidator,
+    requiredValidator,
+    stateValidator,
+} from './validators';
+
+interface IUserState {
+    name: string;
+    email: string;
+    age: number;
+    role: 'player' | 'admin';
+    tags: string[];
+}
+
+const createUser = (): IUserState => ({
+    name: 'Alice',
+    email: 'alice@example.com',
+    age: 30,
+    role: 'player',
+    tags: [],
+});
+
+/** Выполнить обновление и вернуть выброшенную ошибку валидации */
+function catchValidation(store: Store<IUserState>, update: Partial<IUserState>) {
+    try {
+        store.update(() => update);
+    } catch (error) {
+        if (error instanceof StoreValidationError) return error;
+        throw error;
+    }
+    throw new Error('Expected StoreValidationError');
+}
+
+describe('field validators', () => {
+    it('check ranges, lengths, patterns and allowed values', () => {
+        expect(rangeValidator<IUserState>('age', { min: 0, max: 150 })({ age: 200 })).toEqual([
+            { field: 'age', rule: 'max', message: 'age must be at most 150' },
+        ]);
+        expect(lengthValidator<IUserState>('tags', { maxLength: 1 })({ tags: ['a', 'b'] })).toEqual(
+            [{ field: 'tags', rule: 'maxLength', message: 'tags must have length of at most 1' }],
+        );
+        expect(
+            patternValidator<IUserState>('email', /^\S+@\S+$/g, 'Invalid email')({ email: 'x' }),
+        ).toEqual([{ field: 'email', rule: 'pattern', message: 'Invalid email' }]);
+        expect(
+            enumValidator<IUserState, 'role'>('role', ['player', 'admin'])({
+                role: 'guest' as IUserState['role'],
+            }),
+        ).toEqual([{ field: 'role', rule: 'enum', message: 'role must be one of: player, admin' }]);
+    });
+
+    it('ignore fields that are not in the update', () => {
+        const validator = numberRangeValidator<IUserState>({ age: { min: 18 } });
+
+        expect(validator({ name: 'Bob' })).toBe(true);
+        expect(validator({ age: 18 })).toBe(true);
+    });
+
+    it('treat undefined, null and empty strings as missing for required fields', () => {
+        const validator = requiredValidator<IUserState>('name', 'email');
+
+        expect(validator({ name: '' })).toEqual([
+            { field: 'name', rule: 'required', message: 'name is required' },
+        ]);
+        expect(validator({ email: undefined })).toEqual([
+            { field: 'email', rule: 'required', message: 'email is required' },
+        ]);
+        expect(validator({ name: 'Bob' })).toBe(true);
+    });
+
+    it('use the predicate message or the fallback one', () => {
+        const even = customValidator<IUserState, 'age'>(
+            'age',
+            (age) => age % 2 === 0,
+            'Age must be even',
+        );
+        const adult = customValidator<IUserState, 'age'>('age', (age) => age >= 18 || 'Too young');
+        const positive = customValidator<IUserState, 'age'>('age', (age) => age > 0);
+
+        expect(even({ age: 3 })).toEqual([
+            { field: 'age', rule: 'custom', message: 'Age must be even' },
+        ]);
+        expect(adult({ age: 10 })).toEqual([
+            { field: 'age', rule: 'custom', message: 'Too young' },
+        ]);
+        expect(positive({ age: -1 })).toEqual([
+            { field: 'age', rule: 'custom', message: 'age is invalid' },
+        ]);
+    });
+});
+
+describe('StoreValidationError', () => {
+    it('lists every failing field at once', () => {
+        const store = new Store(createUser(), {
+            validators: [
+                fieldValidators<IUserState>({
+                    name: { required: true, minLength: 3 },
+                    age: { min: 0, max: 150 },
+                    role: { oneOf: ['player', 'admin'] },
+                }),
+            ],
+        });
+
+        const error = catchValidation(store, { name: 'Al', age: -1 });
+
+        expect(error.fields).toEqual(['name', 'age']);
+        expect(error.issuesFor('age')).toEqual([
+            { field: 'age', rule: 'min', message: 'age must be at least 0' },
+        ]);
+        expect(error.message).toBe('name must have length of at least 3; age must be at least 0');
+        expect(store.state.age).toBe(30);
+    });
+
+    it('collects issues from several validators including plain ones', () => {
+        const store = new Store(createUser(), {
+            validators: [
+                requiredValidator<IUserState>('name'),
+                (update) => (update.role === 'admin' ? 'Admins are not allowed' : true),
+            ],
+        });
+
+        const error = catchValidation(store, { name: '', role: 'admin' });
+
+        expect(error.issues).toEqual([
+            { field: 'name', rule: 'required', message: 'name is required' },
+            { rule: 'custom', message: 'Admins are not allowed' },
+        ]);
+        expect(error.fields).toEqual(['name']);
+    });
+
+    it('stops checking once the validator is removed', () => {
+        const store = new Store(createUser());
+        const remove = store.addValidator(rangeValidator<IUserState>('age', { min: 0 }));
+
+        expect(() => store.update(() => ({ age: -5 }))).toThrow(StoreValidationError);
+        remove();
+        store.update(() => ({ age: -5 }));
+
+        expect(store.state.age).toBe(-5);
+    });
+});
+
+interface IHeroState {
+    level: number;
+    gold: number;
+    spentGold: number;
+}
+
+const createHero = (): IHeroState => ({ level: 1, gold: 100, spentGold: 0 });
+
+const levelStep = stateValidator<IHeroState>(
+    (next, prev) => next.level - prev.level <= 1 || 'Level can only go up by one',
+);
+
+describe('stateValidator', () => {
+    it('receives the next and previous state with the original update', () => {
+        const validate = vi.fn(() => true as const);
+        const store = new Store(createHero(), { validators: [stateValidator(validate)] });
+
+        store.update(() => ({ level: 2 }));
+
+        expect(validate).toHaveBeenCalledWith(
+            { level: 2, gold: 100, spentGold: 0 },
+            { level: 1, gold: 100, spentGold: 0 },
+            { level: 2 },
+        );
+    });
+
+    it('checks the state produced by middleware', () => {
+        const store = new Store(createHero(), {
+            validators: [
+                stateValidator<IHeroState>(
+                    (next, prev) => next.spentGold <= prev.gold || 'Not enough gold',
+                ),
+            ],
+            middleware: [
+                (state, update, next) =>
+                    next(state, { ...update, spentGold: (update.spentGold ?? 0) * 2 }),
+            ],
+        });
+
+        store.update(() => ({ spentGold: 50 }));
+        expect(store.state.spentGold).toBe(100);
+
+        expect(() => store.update(() => ({ spentGold: 60 }))).toThrow('Not enough gold');
+        expect(store.state.spentGold).toBe(100);
+    });
+
+    it('works next to partial validators and through addValidator', () => {
+        const store = new Store(createHero(), {
+            validators: [rangeValidator<IHeroState>('gold', { min: 0 })],
+        });
+        const remove = store.addValidator(levelStep);
+
+        expect(() => store.update(() => ({ gold: -1 }))).toThrow('gold must be at least 0');
+        expect(() => store.update(() => ({ level: 3 }))).toThrow(StoreValidationError);
+
+        remove();
+        store.update(() => ({ level: 3 }));
+        expect(store.state.level).toBe(3);
+    });
+
+    it('runs for mixed stores from both the mix and the source stores', () => {
+        const hero = new Store(createHero(), { validators: [levelStep] });
+        const ui = new Store({ open: false });
+        const mixed = mixStores([hero, ui], {
+            validators: [
+                stateValidator((next) => !(next.open && next.level > 5) || 'Close the menu first'),
+            ],
+        });
+
+        expect(() => mixed.update(() => ({ level: 4 }))).toThrow('Level can only go up by one');
+        expect(hero.state.level).toBe(1);
+
+        hero.reset({ ...createHero(), level: 6 });
+        expect(() => mixed.update(() => ({ open: true }))).toThrow('Close the menu first');
+        expect(ui.state.open).toBe(false);
+    });
+});
@@ -0,0 +1,299 @@
+import {
+    IStateValidator,
+    StateValidator,
+    ValidationIssue,
+    Validator,
+    ValidatorFieldRules,
+    ValidatorFields,
+} from './models';
+
+type RangeRules = Pick<ValidatorFieldRules<unknown>, 'min' | 'max'>;
+
+type LengthRules = Pick<ValidatorFieldRules<unknown>, 'minLength' | 'maxLength'>;
+
+const hasLength = (value: unknown): value is { length: number } =>
+    typeof value === 'string' || Array.isArray(value);
+
+/**
+ * Проверить значение поля по набору правил
+ * @param field Название поля
+ * @param value Новое значение поля
+ * @param rules Правила проверки
+ * @param message Сообщение, заменяющее стандартные
+ * @returns Список найденных нарушений
+ */
+function checkField<V>(
+    field: string,
+    value: V,
+    rules: ValidatorFieldRules<V>,
+    message?: string,
+): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    const fail = (rule: string, defaultMessage: string) =>
+        issues.push({ field, rule, message: message ?? defaultMessage });
+
+    if (value === undefined || value === null || (value as unknown) === '') {
+        if (rules.required) {
+            fail('required', `${field} is required`);
+        }
+        if (value === undefined || value === null) {
+            return issues;
+        }
+    }
+
+    if (typeof value === 'number') {
+        if (rules.min !== undefined && value < rules.min) {
+            fail('min', `${field} must be at least ${rules.min}`);
+        }
+        if (rules.max !== undefined && value > rules.max) {
+            fail('max', `${field} must be at most ${rules.max}`);
+        }
+    }
+
+    if (hasLength(value)) {
+        if (rules.minLength !== undefined && value.length < rules.minLength) {
+            fail('minLength', `${field} must have length of at least ${rules.minLength}`);
+        }
+        if (rules.maxLength !== undefined && value.length > rules.maxLength) {
+            fail('maxLength', `${field} must have length of at most ${rules.maxLength}`);
+        }
+    }
+
+    if (rules.pattern && typeof value === 'string') {
+        rules.pattern.lastIndex = 0;
+        if (!rules.pattern.test(value)) {
+            fail('pattern', `${field} does not match ${rules.pattern}`);
+        }
+    }
+
+    if (rules.oneOf && !rules.oneOf.includes(value)) {
+        fail('enum', `${field} must be one of: ${rules.oneOf.join(', ')}`);
+    }
+
+    if (rules.validate) {
+        const result = rules.validate(value);
+        if (result !== true) {
+            fail('custom', typeof result === 'string' ? result : `${field} is invalid`);
+        }
+    }
+
+    return issues;
+}
+
+/**
+ * Создать валидатор одного поля. Поле проверяется, только если оно есть в обновлении.
+ */
+function fieldRulesValidator<T, K extends keyof T = keyof T>(
+    field: K,
+    rules: ValidatorFieldRules<T[K]>,
+    message?: string,
+): Validator<T> {
+    return (update) => {
+        if (!(field in update)) return true;
+
+        const issues = checkField(String(field), update[field] as T[K], rules, message);
+        return issues.length === 0 ? true : issues;
+    };
+}
+
+/**
+ * Создает валидатор, проверяющий числовое поле на попадание в диапазон
+ *
+ * @example
+ * ```typescript
+ * const validator = rangeValidator<GameState>('playerCount', { min: 2, max: 10 });
+ * ```
+ *
+ * @param field - Проверяемое поле
+ * @param range - Минимальное и/или максимальное значение
+ * @param message - Сообщение об ошибке вместо стандартного
+ */
+export function rangeValidator<T>(
+    field: keyof T,
+    range: RangeRules,
+    message?: string,
+): Validator<T> {
+    return fieldRulesValidator<T>(field, range, message);
+}
+
+/**
+ * Создает валидатор длины строки или массива
+ *
+ * @example
+ * ```typescript
+ * const validator = lengthValidator<UserState>('name', { minLength: 3, maxLength: 16 });
+ * ```
+ *
+ * @param field - Проверяемое поле
+ * @param length - Минимальная и/или максимальная длина
+ * @param message - Сообщение об ошибке вместо стандартного
+ */
+export function lengthValidator<T>(
+    field: keyof T,
+    length: LengthRules,
+    message?: string,
+): Validator<T> {
+    return fieldRulesValidator<T>(field, length, message);
+}
+
+/**
+ * Создает валидатор, проверяющий строку регулярным выражением
+ *
+ * @example
+ * ```typescript
+ * const validator = patternValidator<UserState>('email', /^\S+@\S+$/, 'Некорректный email');
+ * ```
+ *
+ * @param field - Проверяемое поле
+ * @param pattern - Регулярное выражение
+ * @param message - Сообщение об ошибке вместо стандартного
+ */
+export function patternValidator<T>(
+    field: keyof T,
+    pattern: RegExp,
+    message?: string,
+): Validator<T> {
+    return fieldRulesValidator<T>(field, { pattern }, message);
+}
+
+/**
+ * Создает валидатор, допускающий только перечисленные значения
+ *
+ * @example
+ * ```typescript
+ * const validator = enumValidator<GameState>('difficulty', ['easy', 'normal', 'hard']);
+ * ```
+ *
+ * @param field - Проверяемое поле
+ * @param values - Допустимые значения
+ * @param message - Сообщение об ошибке вместо стандартного
+ */
+export function enumValidator<T, K extends keyof T = keyof T>(
+    field: K,
+    values: readonly T[K][],
+    message?: string,
+): Validator<T> {
+    return fieldRulesValidator<T>(field, { oneOf: values }, message);
+}
+
+/**
+ * Создает валидатор, запрещающий устанавливать полям пустые значения
+ * (undefined, null или пустую строку)
+ *
+ * @example
+ * ```typescript
+ * const validator = requiredValidator<UserState>('name', 'email');
+ * ```
+ *
+ * @param fields - Обязательные поля
+ */
+export function requiredValidator<T>(...fields: Array<keyof T>): Validator<T> {
+    return fieldValidators<T>(
+        Object.fromEntries(
+            fields.map((field) => [field, { required: true }]),
+        ) as ValidatorFields<T>,
+    );
+}
+
+/**
+ * Создает валидатор поля на основе произвольного предиката
+ *
+ * @example
+ * ```typescript
+ * const validator = customValidator<GameState, 'score'>(
+ *   'score',
+ *   score => score % 5 === 0 || 'Счет должен быть кратен 5'
+ * );
+ * ```
+ *
+ * @param field - Проверяемое поле
+ * @param predicate - Функция, возвращающая true, false или сообщение об ошибке
+ * @param message - Сообщение об ошибке, если предикат вернул false
+ */
+export function customValidator<T, K extends keyof T = keyof T>(
+    field: K,
+    predicate: (value: T[K]) => boolean | string,
+    message?: string,
+): Validator<T> {
+    return fieldRulesValidator<T, K>(field, {
+        validate: (value: T[K]) => {
+            const result = predicate(value);
+            return result === false && message !== undefined ? message : result;
+        },
+    });
+}
+
+/**
+ * Создает один валидатор из декларативного описания правил для полей.
+ * В отличие от цепочки отдельных валидаторов, сообщает обо всех
+ * нарушениях во всех полях сразу.
+ *
+ * @example
+ * ```typescript
+ * const validator = fieldValidators<UserState>({
+ *   name: { required: true, minLength: 3, maxLength: 16 },
+ *   age: { min: 0, max: 150 },
+ *   role: { oneOf: ['player', 'admin'] }
+ * });
+ *
+ * const store = new Store<UserState>(initial, { validators: [validator] });
+ * ```
+ *
+ * @param fields - Правила проверки для каждого поля
+ * @returns Валидатор, возвращающий список всех нарушений
+ */
+export function fieldValidators<T>(fields: ValidatorFields<T>): Validator<T> {
+    const validators = (Object.keys(fields) as Array<keyof T>).flatMap((field) => {
+        const rules = fields[field];
+        return rules ? [fieldRulesValidator<T>(field, rules)] : [];
+    });
+
+    return (update) => {
+        const issues = validators.flatMap((validator) => {
+            const result = validator(update);
+            return result === true ? [] : (result as ValidationIssue[]);
+        });
+        return issues.length === 0 ? true : issues;
+    };
+}
+
+/**
+ * Создает валидатор диапазонов для числовых полей
+ *
+ * @example
+ * ```typescript
+ * const validator = numberRangeValidator<GameState>({
+ *   playerCount: { min: 2, max: 10 }
+ * });
+ * ```
+ *
+ * @param fields - Минимальные и максимальные значения полей
+ */
+export function numberRangeValidator<T>(fields: { [K in keyof T]?: RangeRules }): Validator<T> {
+    return fieldValidators<T>(fields as ValidatorFields<T>);
+}
+
+/**
+ * Создает валидатор итогового состояния для правил, зависящих от нескольких полей
+ * или от предыдущего состояния. Такой валидатор вызывается после цепочки middleware,
+ * непосредственно перед записью состояния.
+ *
+ * @example
+ * ```typescript
+ * const store = new Store<GameState>(initial, {
+ *   validators: [
+ *     stateValidator((next, prev) =>
+ *       next.level - prev.level <= 1 || 'Уровень можно повышать только на 1'
+ *     ),
+ *     stateValidator((next, prev, update) =>
+ *       update.spentGold === undefined || next.spentGold <= prev.gold || 'Недостаточно золота'
+ *     )
+ *   ]
+ * });
+ * ```
+ *
+ * @param validate - Функция, получающая следующее и предыдущее состояние и исходное обновление
+ */
+export function stateValidator<T>(validate: StateValidator<T>): IStateValidator<T> {
+    return { kind: 'state', validate };
+}